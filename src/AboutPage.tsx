@@ -0,0 +1,19 @@
+import Link from "./Link";
+
+function AboutPage() {
+  return (
+    <div className="page about-page" data-testid="about-page">
+      <h2 className="page-title">About</h2>
+      <p>
+        Webby Test is a small todo app built with React and Vite. It keeps everything in your
+        browser: lists, categories, reminders, focus sessions and stats.
+      </p>
+      <p>
+        Head to <Link to="/" data-testid="about-todos-link">your todos</Link> to get started, or
+        press <kbd>?</kbd> anywhere to see the keyboard shortcuts.
+      </p>
+    </div>
+  );
+}
+
+export default AboutPage;
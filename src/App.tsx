@@ -1,18 +1,59 @@
-import { useState, useCallback, useMemo } from "react";
-import ContactForm from "./ContactForm";
-import Counter from "./Counter";
+import { ComponentType, useState, useCallback, useMemo, useEffect, useRef } from "react";
+import AboutPage from "./AboutPage";
+import ContactPage from "./ContactPage";
 import Footer from "./Footer";
 import Header from "./Header";
+import HomePage from "./HomePage";
 import KeyboardShortcutsModal from "./KeyboardShortcutsModal";
+import NotFoundPage from "./NotFoundPage";
+import { useRouter } from "./RouterContext";
+import StatsPage from "./StatsPage";
 import { useTheme } from "./ThemeContext";
 import { useToast } from "./ToastContext";
-import TodoList from "./TodoList";
+import { useTodos } from "./TodoContext";
 import { useKeyboardShortcuts, KeyboardShortcut } from "./useKeyboardShortcuts";
+import { useReminders } from "./useReminders";
+import { Page, PAGE_TITLES, formatDocumentTitle } from "./utils/routes";
+import { getBackupKey, takeQuarantinedKeys } from "./utils/storage";
+
+const PAGES: Record<Page, ComponentType> = {
+  todos: HomePage,
+  stats: StatsPage,
+  contact: ContactPage,
+  about: AboutPage,
+  notFound: NotFoundPage,
+};
 
 function App() {
   const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
   const { addToast } = useToast();
+  const { todos, undo, redo, canUndo, canRedo } = useTodos();
+  const { route, navigate } = useRouter();
+  const pendingFocusRef = useRef(false);
+
+  useReminders();
+
+  // A deep-linked todo names the tab after itself
+  const linkedTodoText = todos.find((t) => t.id === route.todoId)?.text;
+  useEffect(() => {
+    document.title = formatDocumentTitle(linkedTodoText ?? PAGE_TITLES[route.page]);
+  }, [route.page, linkedTodoText]);
+
+  // Each page starts at the top, like a full page load would
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [route.page]);
+
+  // Let the user know if any saved data was unreadable and had to be reset
+  useEffect(() => {
+    const keys = takeQuarantinedKeys();
+    if (keys.length === 0) return;
+    addToast(
+      `Some saved data couldn't be read and was backed up to ${keys.map(getBackupKey).join(", ")}`,
+      "error"
+    );
+  }, [addToast]);
 
   const openHelpModal = useCallback(() => {
     setIsHelpModalOpen(true);
@@ -29,8 +70,20 @@ function App() {
     if (todoInput) {
       todoInput.focus();
       todoInput.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
     }
-  }, []);
+    // Not on the todos page yet; focus once it has rendered
+    if (route.page !== "todos") {
+      pendingFocusRef.current = true;
+      navigate("/");
+    }
+  }, [route.page, navigate]);
+
+  useEffect(() => {
+    if (route.page !== "todos" || !pendingFocusRef.current) return;
+    pendingFocusRef.current = false;
+    focusTodoInput();
+  }, [route.page, focusTodoInput]);
 
   const handleToggleTheme = useCallback(() => {
     toggleTheme();
@@ -38,6 +91,18 @@ function App() {
     addToast(`Switched to ${newTheme} mode`, "info");
   }, [theme, toggleTheme, addToast]);
 
+  const handleUndo = useCallback(() => {
+    if (!canUndo) return;
+    undo();
+    addToast("Undid last change", "info");
+  }, [canUndo, undo, addToast]);
+
+  const handleRedo = useCallback(() => {
+    if (!canRedo) return;
+    redo();
+    addToast("Redid last change", "info");
+  }, [canRedo, redo, addToast]);
+
   const clearSearchAndCloseModals = useCallback(() => {
     if (isHelpModalOpen) {
       closeHelpModal();
@@ -72,6 +137,21 @@ function App() {
         description: "Toggle dark mode",
         action: handleToggleTheme,
       },
+      {
+        key: "z",
+        ctrlOrCmd: true,
+        skipInInputs: true,
+        description: "Undo last todo change",
+        action: handleUndo,
+      },
+      {
+        key: "z",
+        ctrlOrCmd: true,
+        shift: true,
+        skipInInputs: true,
+        description: "Redo last undone change",
+        action: handleRedo,
+      },
       {
         key: "Escape",
         description: "Clear search/filter, close modals",
@@ -83,25 +163,31 @@ function App() {
         action: openHelpModal,
       },
     ],
-    [focusTodoInput, handleToggleTheme, clearSearchAndCloseModals, openHelpModal]
+    [
+      focusTodoInput,
+      handleToggleTheme,
+      handleUndo,
+      handleRedo,
+      clearSearchAndCloseModals,
+      openHelpModal,
+    ]
   );
 
   useKeyboardShortcuts({ shortcuts });
 
+  const CurrentPage = PAGES[route.page];
+
   return (
     <div className="app-container" data-testid="app-container">
       <Header />
       <div className="app-content">
-        <div className="app">
+        <div className={`app app-page-${route.page}`} data-testid="app" data-page={route.page}>
           <header>
             <h1>Webby Test</h1>
             <p>A simple React application for testing the Claude GitHub Runner.</p>
           </header>
           <main>
-            <p>Welcome! This app will be expanded with new features.</p>
-            <Counter />
-            <TodoList />
-            <ContactForm />
+            <CurrentPage />
           </main>
         </div>
       </div>
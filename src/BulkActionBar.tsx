@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { Category } from "./CategoryContext";
+import { TaskList } from "./ListContext";
+import { CategoryType, PriorityType } from "./todoReducer";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  categories: Category[];
+  lists: TaskList[];
+  priorities: { value: PriorityType; label: string; emoji: string }[];
+  onSelectAll: (selected: boolean) => void;
+  onSetCompleted: (completed: boolean) => void;
+  onDelete: () => void;
+  onSetCategory: (category: CategoryType | undefined) => void;
+  onMoveToList: (listId: string) => void;
+  onSetPriority: (priority: PriorityType) => void;
+  onSetDueDate: (dueDate: string | undefined) => void;
+  onExit: () => void;
+}
+
+// Value used by the category select to mean "remove the category"
+const CLEAR_CATEGORY = "__none__";
+
+function BulkActionBar({
+  selectedCount,
+  visibleCount,
+  categories,
+  lists,
+  priorities,
+  onSelectAll,
+  onSetCompleted,
+  onDelete,
+  onSetCategory,
+  onMoveToList,
+  onSetPriority,
+  onSetDueDate,
+  onExit,
+}: BulkActionBarProps) {
+  const [dueDate, setDueDate] = useState("");
+  const allSelected = visibleCount > 0 && selectedCount === visibleCount;
+  const noneSelected = selectedCount === 0;
+
+  return (
+    <div className="todo-bulk-bar" data-testid="todo-bulk-bar" role="toolbar" aria-label="Bulk actions">
+      <label className="todo-bulk-select-all">
+        <input
+          type="checkbox"
+          data-testid="todo-select-all"
+          checked={allSelected}
+          ref={(el) => {
+            if (el) el.indeterminate = !allSelected && !noneSelected;
+          }}
+          onChange={(e) => onSelectAll(e.target.checked)}
+          disabled={visibleCount === 0}
+        />
+        <span data-testid="todo-bulk-count">{selectedCount} selected</span>
+      </label>
+
+      <button
+        className="todo-bulk-btn"
+        data-testid="todo-bulk-complete"
+        onClick={() => onSetCompleted(true)}
+        disabled={noneSelected}
+      >
+        ✓ Complete
+      </button>
+      <button
+        className="todo-bulk-btn"
+        data-testid="todo-bulk-uncomplete"
+        onClick={() => onSetCompleted(false)}
+        disabled={noneSelected}
+      >
+        ↺ Uncomplete
+      </button>
+
+      <select
+        className="todo-bulk-select"
+        data-testid="todo-bulk-category"
+        value=""
+        onChange={(e) =>
+          onSetCategory(
+            e.target.value === CLEAR_CATEGORY ? undefined : (e.target.value as CategoryType)
+          )
+        }
+        disabled={noneSelected}
+        aria-label="Set category"
+      >
+        <option value="" disabled>
+          Set category…
+        </option>
+        {categories.map((cat) => (
+          <option key={cat.id} value={cat.id}>
+            {cat.icon} {cat.name}
+          </option>
+        ))}
+        <option value={CLEAR_CATEGORY}>No Category</option>
+      </select>
+
+      {lists.length > 1 && (
+        <select
+          className="todo-bulk-select"
+          data-testid="todo-bulk-list"
+          value=""
+          onChange={(e) => onMoveToList(e.target.value)}
+          disabled={noneSelected}
+          aria-label="Move to list"
+        >
+          <option value="" disabled>
+            Move to list…
+          </option>
+          {lists.map((list) => (
+            <option key={list.id} value={list.id}>
+              {list.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <select
+        className="todo-bulk-select"
+        data-testid="todo-bulk-priority"
+        value=""
+        onChange={(e) => onSetPriority(e.target.value as PriorityType)}
+        disabled={noneSelected}
+        aria-label="Set priority"
+      >
+        <option value="" disabled>
+          Set priority…
+        </option>
+        {priorities.map((priority) => (
+          <option key={priority.value} value={priority.value}>
+            {priority.emoji} {priority.label}
+          </option>
+        ))}
+      </select>
+
+      <span className="todo-bulk-due">
+        <input
+          type="date"
+          className="todo-due-date-input"
+          data-testid="todo-bulk-due-date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          disabled={noneSelected}
+          aria-label="Due date for selected todos"
+        />
+        <button
+          className="todo-bulk-btn"
+          data-testid="todo-bulk-set-due"
+          onClick={() => {
+            onSetDueDate(dueDate);
+            setDueDate("");
+          }}
+          disabled={noneSelected || !dueDate}
+        >
+          Set due
+        </button>
+        <button
+          className="todo-bulk-btn"
+          data-testid="todo-bulk-clear-due"
+          onClick={() => onSetDueDate(undefined)}
+          disabled={noneSelected}
+        >
+          Clear due
+        </button>
+      </span>
+
+      <button
+        className="todo-bulk-btn todo-bulk-btn-danger"
+        data-testid="todo-bulk-delete"
+        onClick={onDelete}
+        disabled={noneSelected}
+      >
+        🗑 Delete
+      </button>
+      <button className="todo-bulk-btn" data-testid="todo-bulk-exit" onClick={onExit}>
+        Done
+      </button>
+    </div>
+  );
+}
+
+export default BulkActionBar;
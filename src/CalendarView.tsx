@@ -0,0 +1,209 @@
+import { useState, useMemo, useRef } from "react";
+import { useCategories } from "./CategoryContext";
+import { Todo } from "./todoReducer";
+import { addDays, isToday, parseLocalDate, toLocalDateString } from "./utils/date";
+
+export type CalendarMode = "month" | "week";
+
+interface CalendarViewProps {
+  todos: Todo[];
+  mode: CalendarMode;
+  onModeChange: (mode: CalendarMode) => void;
+  onReschedule: (id: number, dueDate: string) => void;
+  onQuickAdd: (dueDate: string, text: string) => void;
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Returns the days shown for the mode, always whole weeks starting on Sunday
+function getVisibleDays(anchor: Date, mode: CalendarMode): Date[] {
+  const first = mode === "month" ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : anchor;
+  const start = addDays(first, -first.getDay());
+  let count = 7;
+  if (mode === "month") {
+    const daysInMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate();
+    count = Math.ceil((first.getDay() + daysInMonth) / 7) * 7;
+  }
+  return Array.from({ length: count }, (_, i) => addDays(start, i));
+}
+
+function formatTitle(days: Date[], anchor: Date, mode: CalendarMode): string {
+  if (mode === "month") {
+    return anchor.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+  }
+  const first = days[0].toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  const last = days[days.length - 1].toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  return `${first} – ${last}`;
+}
+
+function CalendarView({ todos, mode, onModeChange, onReschedule, onQuickAdd }: CalendarViewProps) {
+  const { getCategory } = useCategories();
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [dropDate, setDropDate] = useState<string | null>(null);
+  const [addingDate, setAddingDate] = useState<string | null>(null);
+  const [addValue, setAddValue] = useState("");
+  // Set on Escape so the blur that follows doesn't add the todo anyway
+  const cancelAddRef = useRef(false);
+
+  const days = useMemo(() => getVisibleDays(anchor, mode), [anchor, mode]);
+
+  const todosByDate = useMemo(() => {
+    const map = new Map<string, Todo[]>();
+    todos.forEach((todo) => {
+      if (!todo.dueDate) return;
+      map.set(todo.dueDate, [...(map.get(todo.dueDate) ?? []), todo]);
+    });
+    return map;
+  }, [todos]);
+  const undatedCount = todos.filter((t) => !t.dueDate).length;
+
+  const move = (direction: number) => {
+    setAnchor((current) =>
+      mode === "month"
+        ? new Date(current.getFullYear(), current.getMonth() + direction, 1)
+        : addDays(current, direction * 7)
+    );
+  };
+
+  const startAdding = (date: string) => {
+    setAddingDate(date);
+    setAddValue("");
+  };
+
+  const submitAdd = () => {
+    if (addingDate && addValue.trim() && !cancelAddRef.current) onQuickAdd(addingDate, addValue.trim());
+    cancelAddRef.current = false;
+    setAddingDate(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, date: string) => {
+    e.preventDefault();
+    setDropDate(null);
+    const id = parseInt(e.dataTransfer.getData("text/plain"), 10);
+    const todo = todos.find((t) => t.id === id);
+    if (todo && todo.dueDate !== date) onReschedule(id, date);
+  };
+
+  return (
+    <div className={`calendar-view calendar-view-${mode}`} data-testid="calendar-view">
+      <div className="calendar-toolbar">
+        <button className="todo-filter-btn" data-testid="calendar-prev" onClick={() => move(-1)} aria-label="Previous">
+          ‹
+        </button>
+        <button className="todo-filter-btn" data-testid="calendar-today" onClick={() => setAnchor(new Date())}>
+          Today
+        </button>
+        <button className="todo-filter-btn" data-testid="calendar-next" onClick={() => move(1)} aria-label="Next">
+          ›
+        </button>
+        <h4 className="calendar-title" data-testid="calendar-title">
+          {formatTitle(days, anchor, mode)}
+        </h4>
+        <button
+          className={`todo-filter-btn ${mode === "month" ? "active" : ""}`}
+          data-testid="calendar-mode-month"
+          onClick={() => onModeChange("month")}
+        >
+          Month
+        </button>
+        <button
+          className={`todo-filter-btn ${mode === "week" ? "active" : ""}`}
+          data-testid="calendar-mode-week"
+          onClick={() => onModeChange("week")}
+        >
+          Week
+        </button>
+      </div>
+
+      <div className="calendar-grid" role="grid">
+        {WEEKDAY_LABELS.map((label) => (
+          <div key={label} className="calendar-weekday" role="columnheader">
+            {label}
+          </div>
+        ))}
+        {days.map((day) => {
+          const date = toLocalDateString(day);
+          const dayTodos = todosByDate.get(date) ?? [];
+          const isOutside = mode === "month" && day.getMonth() !== anchor.getMonth();
+          return (
+            <div
+              key={date}
+              role="gridcell"
+              className={`calendar-day ${isOutside ? "calendar-day-outside" : ""} ${isToday(day) ? "calendar-day-today" : ""} ${dropDate === date ? "calendar-day-drop-target" : ""}`}
+              data-testid="calendar-day"
+              data-date={date}
+              onClick={() => startAdding(date)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+                setDropDate(date);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropDate(null);
+              }}
+              onDrop={(e) => handleDrop(e, date)}
+            >
+              <span className="calendar-day-number">{day.getDate()}</span>
+              <ul className="calendar-todos">
+                {dayTodos.map((todo) => (
+                  <li
+                    key={todo.id}
+                    className={`calendar-todo calendar-todo-priority-${todo.priority} ${todo.completed ? "completed" : ""}`}
+                    data-testid="calendar-todo"
+                    style={{ borderLeftColor: getCategory(todo.category)?.color }}
+                    title={`${todo.text} (${todo.priority} priority${todo.category ? `, ${getCategory(todo.category)?.name ?? todo.category}` : ""})`}
+                    draggable
+                    onClick={(e) => e.stopPropagation()}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", todo.id.toString());
+                    }}
+                  >
+                    {todo.dueTime && <span className="calendar-todo-time">{todo.dueTime}</span>}
+                    {todo.text}
+                  </li>
+                ))}
+              </ul>
+              {addingDate === date && (
+                <input
+                  type="text"
+                  className="calendar-add-input"
+                  data-testid="calendar-add-input"
+                  value={addValue}
+                  onChange={(e) => setAddValue(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    // Blurring submits, so Enter and the blur can't add the todo twice
+                    if (e.key === "Enter") e.currentTarget.blur();
+                    if (e.key === "Escape") {
+                      // Cancel the add without also clearing the search
+                      e.stopPropagation();
+                      cancelAddRef.current = true;
+                      e.currentTarget.blur();
+                    }
+                  }}
+                  onBlur={submitAdd}
+                  placeholder="New todo"
+                  aria-label={`New todo on ${parseLocalDate(date).toLocaleDateString("en-US", { month: "long", day: "numeric" })}`}
+                  autoFocus
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {undatedCount > 0 && (
+        <p className="calendar-undated" data-testid="calendar-undated-count">
+          {undatedCount} matching todo{undatedCount === 1 ? "" : "s"} without a due date not shown
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default CalendarView;
@@ -0,0 +1,177 @@
+import { createContext, useContext, useCallback, useEffect, useRef, ReactNode } from "react";
+import { useTodos } from "./TodoContext";
+import { usePersistedState } from "./usePersistedState";
+import { StorageSchema, validateRecords } from "./utils/storage";
+
+export interface Category {
+  id: string; // Stored on todos; stays the same when the category is renamed
+  name: string;
+  color: string; // Hex color, e.g. #3b82f6
+  icon: string; // Optional emoji shown before the name
+}
+
+interface CategoryContextType {
+  categories: Category[];
+  getCategory: (id: string | undefined) => Category | undefined;
+  addCategory: (name: string, color: string, icon: string) => Category;
+  updateCategory: (id: string, changes: Partial<Omit<Category, "id">>) => void;
+  moveCategory: (id: string, toIndex: number) => void;
+  deleteCategory: (id: string, reassignTo?: string) => void;
+  mergeCategory: (sourceId: string, targetId: string) => void;
+}
+
+const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: "work", name: "Work", color: "#3b82f6", icon: "" },
+  { id: "personal", name: "Personal", color: "#22c55e", icon: "" },
+  { id: "shopping", name: "Shopping", color: "#f97316", icon: "" },
+  { id: "health", name: "Health", color: "#ef4444", icon: "" },
+  { id: "other", name: "Other", color: "#6b7280", icon: "" },
+];
+
+function validateCategory(raw: unknown): Category | null {
+  const category = raw as Partial<Category> | null;
+  if (
+    typeof category?.id !== "string" ||
+    !category.id ||
+    typeof category.name !== "string" ||
+    typeof category.color !== "string" ||
+    !/^#[0-9a-f]{6}$/i.test(category.color)
+  ) {
+    return null;
+  }
+  return {
+    id: category.id,
+    name: category.name,
+    color: category.color,
+    icon: typeof category.icon === "string" ? category.icon : "",
+  };
+}
+
+const categoriesSchema: StorageSchema<Category[]> = {
+  key: "todo-categories",
+  migrations: [(data) => data],
+  validate: (data) => validateRecords(data, validateCategory),
+  fallback: () => DEFAULT_CATEGORIES,
+};
+
+// "Release 2.4" -> "release-2-4", suffixed when already taken
+function createCategoryId(name: string, existing: Category[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "category";
+  let id = base;
+  for (let n = 2; existing.some((c) => c.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+export function CategoryProvider({ children }: { children: ReactNode }) {
+  const [categories, setCategories] = usePersistedState(categoriesSchema);
+  const { todos, trashedTodos, archivedTodos, updateTodos } = useTodos();
+  // Categories removed along with a todo reassignment, by id, so undoing it restores them
+  const removedRef = useRef(new Map<string, { category: Category; index: number }>());
+
+  const getCategory = useCallback(
+    (id: string | undefined) => categories.find((c) => c.id === id),
+    [categories]
+  );
+
+  const addCategory = useCallback(
+    (name: string, color: string, icon: string) => {
+      const category: Category = { id: createCategoryId(name, categories), name, color, icon };
+      setCategories((prev) => [...prev, category]);
+      return category;
+    },
+    [categories, setCategories]
+  );
+
+  const updateCategory = useCallback(
+    (id: string, changes: Partial<Omit<Category, "id">>) => {
+      setCategories((prev) => prev.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+    },
+    [setCategories]
+  );
+
+  const moveCategory = useCallback(
+    (id: string, toIndex: number) => {
+      setCategories((prev) => {
+        const fromIndex = prev.findIndex((c) => c.id === id);
+        if (fromIndex === -1 || toIndex < 0 || toIndex >= prev.length) return prev;
+        const next = [...prev];
+        const [moved] = next.splice(fromIndex, 1);
+        next.splice(toIndex, 0, moved);
+        return next;
+      });
+    },
+    [setCategories]
+  );
+
+  // Removes a category; its todos move to reassignTo, or lose their category. Trashed and
+  // archived todos are included so they don't come back with a category that's gone
+  const deleteCategory = useCallback(
+    (id: string, reassignTo?: string) => {
+      const affected = [...todos, ...trashedTodos, ...archivedTodos]
+        .filter((t) => t.category === id)
+        .map((t) => t.id);
+      const index = categories.findIndex((c) => c.id === id);
+      if (affected.length > 0) {
+        updateTodos(affected, { category: reassignTo });
+        if (index !== -1) removedRef.current.set(id, { category: categories[index], index });
+      }
+      setCategories((prev) => prev.filter((c) => c.id !== id));
+    },
+    [todos, trashedTodos, archivedTodos, categories, updateTodos, setCategories]
+  );
+
+  // Undoing a delete or merge brings back todos that point at the removed category
+  useEffect(() => {
+    const removed = removedRef.current;
+    if (removed.size === 0) return;
+    const used = new Set([...todos, ...trashedTodos, ...archivedTodos].map((t) => t.category));
+    const restored = [...removed.values()].filter(({ category }) => used.has(category.id));
+    if (restored.length === 0) return;
+    restored.forEach(({ category }) => removed.delete(category.id));
+    setCategories((prev) => {
+      const next = [...prev];
+      restored
+        .filter(({ category }) => !next.some((c) => c.id === category.id))
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ category, index }) => next.splice(Math.min(index, next.length), 0, category));
+      return next;
+    });
+  }, [todos, trashedTodos, archivedTodos, setCategories]);
+
+  const mergeCategory = useCallback(
+    (sourceId: string, targetId: string) => {
+      if (sourceId !== targetId) deleteCategory(sourceId, targetId);
+    },
+    [deleteCategory]
+  );
+
+  return (
+    <CategoryContext.Provider
+      value={{
+        categories,
+        getCategory,
+        addCategory,
+        updateCategory,
+        moveCategory,
+        deleteCategory,
+        mergeCategory,
+      }}
+    >
+      {children}
+    </CategoryContext.Provider>
+  );
+}
+
+export function useCategories() {
+  const context = useContext(CategoryContext);
+  if (context === undefined) {
+    throw new Error("useCategories must be used within a CategoryProvider");
+  }
+  return context;
+}
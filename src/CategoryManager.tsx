@@ -0,0 +1,261 @@
+import { useState, useMemo } from "react";
+import { useCategories } from "./CategoryContext";
+import { useTodos } from "./TodoContext";
+import { useToast } from "./ToastContext";
+
+const DEFAULT_NEW_COLOR = "#8b5cf6";
+
+function CategoryManager() {
+  const { categories, addCategory, updateCategory, moveCategory, deleteCategory, mergeCategory } =
+    useCategories();
+  const { todos } = useTodos();
+  const { addToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_NEW_COLOR);
+  const [newIcon, setNewIcon] = useState("");
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+
+  const todoCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    todos.forEach((todo) => {
+      if (todo.category) counts.set(todo.category, (counts.get(todo.category) ?? 0) + 1);
+    });
+    return counts;
+  }, [todos]);
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (categories.some((c) => c.name.toLowerCase() === name.toLowerCase())) {
+      addToast(`A category named "${name}" already exists`, "error");
+      return;
+    }
+    addCategory(name, newColor, newIcon.trim());
+    setNewName("");
+    setNewIcon("");
+    addToast(`Added category "${name}"`, "success");
+  };
+
+  const handleRename = (id: string, value: string) => {
+    const name = value.trim();
+    const category = categories.find((c) => c.id === id);
+    if (!category || !name || name === category.name) return;
+    updateCategory(id, { name });
+  };
+
+  const startDelete = (id: string) => {
+    setDeletingId(id);
+    setReassignTo("");
+  };
+
+  const confirmDelete = (id: string) => {
+    const category = categories.find((c) => c.id === id);
+    const target = categories.find((c) => c.id === reassignTo);
+    const count = todoCounts.get(id) ?? 0;
+    deleteCategory(id, target?.id);
+    setDeletingId(null);
+    addToast(
+      `Deleted "${category?.name}"` +
+        (count === 0
+          ? ""
+          : target
+            ? `, moved ${count} todo(s) to ${target.name}`
+            : `, ${count} todo(s) uncategorized`),
+      "success"
+    );
+  };
+
+  const handleMerge = (sourceId: string, targetId: string) => {
+    const source = categories.find((c) => c.id === sourceId);
+    const target = categories.find((c) => c.id === targetId);
+    if (!source || !target) return;
+    mergeCategory(sourceId, targetId);
+    addToast(`Merged "${source.name}" into "${target.name}"`, "success");
+  };
+
+  return (
+    <div className="category-manager" data-testid="category-manager">
+      <button
+        className="todo-stats-toggle"
+        data-testid="category-manager-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        <span className="todo-stats-toggle-icon">{isOpen ? "▼" : "▶"}</span>
+        <span>Categories</span>
+      </button>
+
+      {isOpen && (
+        <div className="category-manager-panel" data-testid="category-manager-panel">
+          <ul className="category-manager-list">
+            {categories.map((category, index) => {
+              const count = todoCounts.get(category.id) ?? 0;
+              const others = categories.filter((c) => c.id !== category.id);
+              return (
+                <li key={category.id} className="category-row" data-testid="category-row">
+                  <input
+                    type="color"
+                    className="category-color-input"
+                    data-testid="category-color-input"
+                    value={category.color}
+                    onChange={(e) => updateCategory(category.id, { color: e.target.value })}
+                    aria-label={`Color for ${category.name}`}
+                  />
+                  <input
+                    key={`icon-${category.icon}`}
+                    type="text"
+                    className="category-icon-input"
+                    data-testid="category-icon-input"
+                    defaultValue={category.icon}
+                    onBlur={(e) => updateCategory(category.id, { icon: e.target.value.trim() })}
+                    placeholder="🏷"
+                    maxLength={4}
+                    aria-label={`Icon for ${category.name}`}
+                  />
+                  <input
+                    key={`name-${category.name}`}
+                    type="text"
+                    className="category-name-input"
+                    data-testid="category-name-input"
+                    defaultValue={category.name}
+                    onBlur={(e) => handleRename(category.id, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+                    }}
+                    aria-label={`Rename ${category.name}`}
+                  />
+                  <span className="category-count" data-testid="category-count">
+                    {count}
+                  </span>
+                  <button
+                    className="saved-view-action"
+                    data-testid="category-move-up"
+                    onClick={() => moveCategory(category.id, index - 1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${category.name} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="saved-view-action"
+                    data-testid="category-move-down"
+                    onClick={() => moveCategory(category.id, index + 1)}
+                    disabled={index === categories.length - 1}
+                    aria-label={`Move ${category.name} down`}
+                  >
+                    ↓
+                  </button>
+                  <select
+                    className="category-merge-select"
+                    data-testid="category-merge-select"
+                    value=""
+                    onChange={(e) => handleMerge(category.id, e.target.value)}
+                    disabled={others.length === 0}
+                    aria-label={`Merge ${category.name} into`}
+                  >
+                    <option value="" disabled>
+                      Merge into…
+                    </option>
+                    {others.map((other) => (
+                      <option key={other.id} value={other.id}>
+                        {other.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="saved-view-action saved-view-delete"
+                    data-testid="category-delete-btn"
+                    onClick={() => startDelete(category.id)}
+                    aria-label={`Delete ${category.name}`}
+                  >
+                    ✕
+                  </button>
+
+                  {deletingId === category.id && (
+                    <div className="category-delete-confirm" data-testid="category-delete-confirm">
+                      <label>
+                        {count > 0 ? `Move its ${count} todo(s) to ` : "Delete this category? "}
+                        {count > 0 && (
+                          <select
+                            data-testid="category-delete-reassign"
+                            value={reassignTo}
+                            onChange={(e) => setReassignTo(e.target.value)}
+                          >
+                            <option value="">No Category</option>
+                            {others.map((other) => (
+                              <option key={other.id} value={other.id}>
+                                {other.name}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </label>
+                      <button
+                        className="saved-view-action saved-view-delete"
+                        data-testid="category-delete-confirm-btn"
+                        onClick={() => confirmDelete(category.id)}
+                      >
+                        Delete
+                      </button>
+                      <button
+                        className="saved-view-action"
+                        data-testid="category-delete-cancel"
+                        onClick={() => setDeletingId(null)}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="category-add-row">
+            <input
+              type="color"
+              className="category-color-input"
+              data-testid="category-new-color"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              aria-label="Color for new category"
+            />
+            <input
+              type="text"
+              className="category-icon-input"
+              data-testid="category-new-icon"
+              value={newIcon}
+              onChange={(e) => setNewIcon(e.target.value)}
+              placeholder="🏷"
+              maxLength={4}
+              aria-label="Icon for new category"
+            />
+            <input
+              type="text"
+              className="category-name-input"
+              data-testid="category-new-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd();
+              }}
+              placeholder="New category, e.g. Release 2.4"
+            />
+            <button
+              className="todo-filter-btn"
+              data-testid="category-add-btn"
+              onClick={handleAdd}
+              disabled={!newName.trim()}
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CategoryManager;
@@ -0,0 +1,39 @@
+import { ReactNode } from "react";
+import { useCategories } from "./CategoryContext";
+import { getContrastTextColor } from "./utils/color";
+
+interface CategoryTagProps {
+  categoryId: string;
+  className?: string;
+  testId?: string;
+  children?: ReactNode; // Extra text after the name
+}
+
+function CategoryTag({ categoryId, className = "", testId, children }: CategoryTagProps) {
+  const { getCategory } = useCategories();
+  const category = getCategory(categoryId);
+
+  // Todos can briefly point at a category that was deleted in another tab
+  if (!category) {
+    return (
+      <span className={`category-tag category-tag-unknown ${className}`} data-testid={testId}>
+        {categoryId}
+        {children}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`category-tag ${className}`}
+      data-testid={testId}
+      style={{ background: category.color, color: getContrastTextColor(category.color) }}
+    >
+      {category.icon && <span className="category-tag-icon">{category.icon}</span>}
+      {category.name}
+      {children}
+    </span>
+  );
+}
+
+export default CategoryTag;
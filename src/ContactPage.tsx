@@ -0,0 +1,13 @@
+import ContactForm from "./ContactForm";
+
+function ContactPage() {
+  return (
+    <div className="page contact-page" data-testid="contact-page">
+      <h2 className="page-title">Contact</h2>
+      <p>Questions, ideas or bug reports are all welcome.</p>
+      <ContactForm />
+    </div>
+  );
+}
+
+export default ContactPage;
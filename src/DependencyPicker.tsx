@@ -0,0 +1,146 @@
+import { useState, useMemo } from "react";
+import { Todo } from "./todoReducer";
+import { validateBlocker } from "./utils/dependencies";
+import { fuzzyScore } from "./utils/searchQuery";
+
+interface DependencyPickerProps {
+  todo: Todo;
+  todos: Todo[]; // Candidates, also used to check for cycles
+  onChange: (blockedBy: number[]) => void;
+}
+
+// Maximum number of matching todos shown at once
+const SUGGESTION_LIMIT = 6;
+
+// Picks the todos that have to be completed before this one, with a searchable list
+function DependencyPicker({ todo, todos, onChange }: DependencyPickerProps) {
+  const [inputValue, setInputValue] = useState("");
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const blockedBy = todo.blockedBy ?? [];
+
+  const todosById = useMemo(() => new Map(todos.map((t) => [t.id, t])), [todos]);
+  const blockers = blockedBy
+    .map((id) => todosById.get(id))
+    .filter((blocker): blocker is Todo => blocker !== undefined);
+
+  const query = inputValue.trim().toLowerCase();
+  const matches = useMemo(
+    () =>
+      todos
+        .filter((t) => t.id !== todo.id && !t.completed && !blockedBy.includes(t.id))
+        .map((t) => ({ todo: t, score: fuzzyScore(t.text.toLowerCase(), query) }))
+        .filter((match) => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, SUGGESTION_LIMIT)
+        .map((match) => match.todo),
+    [todos, todo.id, blockedBy, query]
+  );
+  const showSuggestions = isFocused && matches.length > 0;
+
+  const addBlocker = (blocker: Todo) => {
+    const problem = validateBlocker(todos, todo.id, blocker.id);
+    setError(problem);
+    if (problem) return;
+    setInputValue("");
+    setHighlightedIndex(0);
+    onChange([...blockedBy, blocker.id]);
+  };
+
+  const removeBlocker = (id: number) => {
+    setError(null);
+    onChange(blockedBy.filter((blockerId) => blockerId !== id));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && showSuggestions) {
+      e.preventDefault();
+      setHighlightedIndex((i) => (i + 1) % matches.length);
+    } else if (e.key === "ArrowUp" && showSuggestions) {
+      e.preventDefault();
+      setHighlightedIndex((i) => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === "Enter" && showSuggestions) {
+      e.preventDefault();
+      addBlocker(matches[Math.min(highlightedIndex, matches.length - 1)]);
+    } else if (e.key === "Backspace" && !inputValue && blockedBy.length > 0) {
+      removeBlocker(blockedBy[blockedBy.length - 1]);
+    } else if (e.key === "Escape" && inputValue) {
+      e.stopPropagation();
+      setInputValue("");
+    }
+  };
+
+  return (
+    <div className="dependency-picker">
+      <div className="tag-editor" data-testid="dependency-picker">
+        {blockers.map((blocker) => (
+          <span
+            key={blocker.id}
+            className={`tag-chip dependency-chip ${blocker.completed ? "dependency-chip-done" : ""}`}
+            data-testid="dependency-chip"
+          >
+            {blocker.completed ? "✓ " : ""}
+            {blocker.text}
+            <button
+              type="button"
+              className="tag-chip-remove"
+              data-testid="dependency-remove"
+              onClick={() => removeBlocker(blocker.id)}
+              aria-label={`Remove blocker ${blocker.text}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <div className="tag-editor-input-wrapper">
+          <input
+            type="text"
+            className="tag-editor-input"
+            data-testid="dependency-picker-input"
+            value={inputValue}
+            onChange={(e) => {
+              setInputValue(e.target.value);
+              setHighlightedIndex(0);
+              setError(null);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => setIsFocused(false)}
+            placeholder={blockers.length === 0 ? "Search todos this one waits on…" : ""}
+            aria-label="Blocked by"
+            aria-autocomplete="list"
+            aria-expanded={showSuggestions}
+          />
+          {showSuggestions && (
+            <ul className="tag-suggestions" role="listbox" data-testid="dependency-suggestions">
+              {matches.map((match, i) => (
+                <li
+                  key={match.id}
+                  role="option"
+                  aria-selected={i === highlightedIndex}
+                  className={`tag-suggestion ${i === highlightedIndex ? "highlighted" : ""}`}
+                  data-testid="dependency-suggestion"
+                  // mousedown fires before the input's blur, so the pick isn't lost
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    addBlocker(match);
+                  }}
+                >
+                  {match.text}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      {error && (
+        <p className="dependency-picker-error" role="alert" data-testid="dependency-picker-error">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default DependencyPicker;
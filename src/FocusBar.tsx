@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { useFocus } from "./FocusContext";
+import { useTodos } from "./TodoContext";
+import {
+  FOCUS_PHASE_LABELS,
+  FocusSettings,
+  formatCountdown,
+  getPhaseLength,
+  getRemainingTime,
+} from "./utils/focus";
+
+const SETTING_FIELDS: { key: keyof FocusSettings; label: string; testId: string; max: number }[] = [
+  { key: "workMinutes", label: "Focus (min)", testId: "focus-setting-work", max: 180 },
+  {
+    key: "shortBreakMinutes",
+    label: "Short break (min)",
+    testId: "focus-setting-short-break",
+    max: 60,
+  },
+  {
+    key: "longBreakMinutes",
+    label: "Long break (min)",
+    testId: "focus-setting-long-break",
+    max: 120,
+  },
+  {
+    key: "cyclesBeforeLongBreak",
+    label: "Rounds before long break",
+    testId: "focus-setting-cycles",
+    max: 12,
+  },
+];
+
+// The running focus timer: countdown, controls and pomodoro settings
+function FocusBar() {
+  const { timer, settings, pauseFocus, resumeFocus, stopFocus, updateFocusSettings } = useFocus();
+  const { todos } = useTodos();
+  const [now, setNow] = useState(Date.now());
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const isRunning = timer !== null && timer.pausedAt === undefined;
+
+  // Only the countdown needs a per-second update; the timer itself is driven by FocusProvider
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  if (!timer) return null;
+
+  const todo = todos.find((t) => t.id === timer.todoId);
+  const remaining = getRemainingTime(timer, settings, now);
+  // A work phase paused before it began is waiting for the next round to start
+  const isReady = timer.phase === "work" && timer.pausedAt === timer.phaseStartedAt;
+  const status = isReady ? "Ready for the next round" : FOCUS_PHASE_LABELS[timer.phase];
+  const progress = 1 - remaining / getPhaseLength(timer.phase, settings);
+
+  return (
+    <div
+      className={`focus-bar focus-bar-${timer.phase} ${isRunning ? "" : "focus-bar-paused"}`}
+      data-testid="focus-timer"
+    >
+      <div className="focus-bar-main">
+        <span className="focus-bar-phase" data-testid="focus-timer-phase">
+          {timer.phase === "work" ? "🍅" : "☕"} {status}
+          {!isRunning && !isReady && " (paused)"}
+        </span>
+        <span className="focus-bar-todo" data-testid="focus-timer-todo">
+          {todo?.text}
+        </span>
+        <span className="focus-bar-remaining" data-testid="focus-timer-remaining" aria-live="off">
+          {formatCountdown(remaining)}
+        </span>
+        {isRunning ? (
+          <button className="todo-filter-btn" data-testid="focus-timer-pause" onClick={pauseFocus}>
+            Pause
+          </button>
+        ) : (
+          <button className="todo-filter-btn" data-testid="focus-timer-resume" onClick={resumeFocus}>
+            {isReady ? "Start" : "Resume"}
+          </button>
+        )}
+        <button className="todo-filter-btn" data-testid="focus-timer-stop" onClick={stopFocus}>
+          Stop
+        </button>
+        <button
+          className="todo-filter-btn"
+          data-testid="focus-timer-settings-btn"
+          onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+          aria-expanded={isSettingsOpen}
+        >
+          ⚙
+        </button>
+      </div>
+      <div className="focus-bar-progress">
+        <div className="focus-bar-progress-fill" style={{ width: `${Math.round(progress * 100)}%` }} />
+      </div>
+      {isSettingsOpen && (
+        <div className="focus-bar-settings" data-testid="focus-timer-settings">
+          {SETTING_FIELDS.map((field) => (
+            <label key={field.key} className="focus-bar-setting">
+              {field.label}
+              <input
+                type="number"
+                min={1}
+                max={field.max}
+                data-testid={field.testId}
+                value={settings[field.key]}
+                onChange={(e) => {
+                  const value = Math.round(Number(e.target.value));
+                  if (value >= 1 && value <= field.max) updateFocusSettings({ [field.key]: value });
+                }}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FocusBar;
@@ -0,0 +1,251 @@
+import {
+  createContext,
+  useContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import { useToast } from "./ToastContext";
+import { useTodos } from "./TodoContext";
+import { usePersistedState } from "./usePersistedState";
+import {
+  DEFAULT_FOCUS_SETTINGS,
+  FocusSession,
+  FocusSettings,
+  FocusTimer,
+  advanceFocusTimer,
+  getPhaseLength,
+  getTrackedTimeByTodo,
+  pauseFocusTimer,
+  resumeFocusTimer,
+  startFocusTimer,
+} from "./utils/focus";
+import { StorageSchema, validateRecords } from "./utils/storage";
+
+interface FocusContextType {
+  timer: FocusTimer | null;
+  settings: FocusSettings;
+  sessions: FocusSession[];
+  trackedTime: Map<number, number>; // Logged milliseconds per todo id
+  startFocus: (todoId: number) => void;
+  pauseFocus: () => void;
+  resumeFocus: () => void;
+  stopFocus: () => void;
+  updateFocusSettings: (changes: Partial<FocusSettings>) => void;
+}
+
+const FocusContext = createContext<FocusContextType | undefined>(undefined);
+
+// Re-check at least this often so sleep/clock changes can't strand a phase
+const MAX_TIMER_DELAY = 60_000;
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+const focusTimerSchema: StorageSchema<FocusTimer | null> = {
+  key: "todo-focus-timer",
+  migrations: [(data) => data],
+  validate: (data) => {
+    if (data === null) return { value: null, invalid: 0 };
+    const timer = data as Partial<FocusTimer>;
+    if (
+      !isTimestamp(timer.todoId) ||
+      !["work", "shortBreak", "longBreak"].includes(timer.phase as string) ||
+      !isTimestamp(timer.phaseStartedAt) ||
+      !isTimestamp(timer.segmentStart) ||
+      (timer.pausedAt !== undefined && !isTimestamp(timer.pausedAt)) ||
+      !isTimestamp(timer.cycle)
+    ) {
+      return null;
+    }
+    return { value: timer as FocusTimer, invalid: 0 };
+  },
+  fallback: () => null,
+};
+
+const focusSettingsSchema: StorageSchema<FocusSettings> = {
+  key: "todo-focus-settings",
+  migrations: [(data) => data],
+  validate: (data) => {
+    const settings = (data ?? {}) as Partial<FocusSettings>;
+    const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 1;
+    if (
+      !isCount(settings.workMinutes) ||
+      !isCount(settings.shortBreakMinutes) ||
+      !isCount(settings.longBreakMinutes) ||
+      !isCount(settings.cyclesBeforeLongBreak)
+    ) {
+      return null;
+    }
+    return { value: settings as FocusSettings, invalid: 0 };
+  },
+  fallback: () => DEFAULT_FOCUS_SETTINGS,
+};
+
+const focusSessionsSchema: StorageSchema<FocusSession[]> = {
+  key: "todo-focus-sessions",
+  migrations: [(data) => data],
+  validate: (data) =>
+    validateRecords(data, (raw) => {
+      const session = raw as Partial<FocusSession> | null;
+      return isTimestamp(session?.todoId) &&
+        isTimestamp(session.start) &&
+        isTimestamp(session.end) &&
+        session.end >= session.start
+        ? {
+            todoId: session.todoId,
+            start: session.start,
+            end: session.end,
+            ...(isTimestamp(session.phaseStart) && { phaseStart: session.phaseStart }),
+          }
+        : null;
+    }),
+  fallback: () => [],
+};
+
+// Work phases are keyed by their start, which every tab running the timer agrees on
+function isPhaseLogged(sessions: FocusSession[], session: FocusSession): boolean {
+  return (
+    session.phaseStart !== undefined &&
+    sessions.some((s) => s.todoId === session.todoId && s.phaseStart === session.phaseStart)
+  );
+}
+
+// Runs the pomodoro timer and keeps the log of focused time per todo
+export function FocusProvider({ children }: { children: ReactNode }) {
+  const { todos } = useTodos();
+  const { addToast } = useToast();
+  const [timer, setTimer] = usePersistedState(focusTimerSchema);
+  const [settings, setSettings] = usePersistedState(focusSettingsSchema);
+  const [sessions, setSessions] = usePersistedState(focusSessionsSchema);
+  const [tick, setTick] = useState(0);
+  // Guards against handling a phase twice before the persisted timer catches up
+  const handledPhases = useRef(new Set<string>());
+
+  const trackedTime = useMemo(() => getTrackedTimeByTodo(sessions), [sessions]);
+
+  // Sessions for a phase another tab already logged are skipped
+  const logSessions = useCallback(
+    (logged: FocusSession[]) => {
+      if (logged.length === 0) return;
+      setSessions((prev) => {
+        const fresh = logged.filter((session) => !isPhaseLogged(prev, session));
+        return fresh.length > 0 ? [...prev, ...fresh] : prev;
+      });
+    },
+    [setSessions]
+  );
+
+  const getTodoText = useCallback(
+    (id: number) => todos.find((todo) => todo.id === id)?.text ?? "your todo",
+    [todos]
+  );
+
+  // Catch up on ended phases (including while the page was closed) and wait for the next one
+  useEffect(() => {
+    const now = Date.now();
+    const { timer: advanced, sessions: logged, endedPhases } = advanceFocusTimer(
+      timer,
+      settings,
+      now
+    );
+
+    if (endedPhases.length > 0) {
+      const phaseKey = `${timer!.phase}:${timer!.phaseStartedAt}`;
+      if (handledPhases.current.has(phaseKey)) return;
+      handledPhases.current.add(phaseKey);
+      // Another open tab may have finished these phases first and toasted already
+      const isHandledElsewhere =
+        logged.length > 0 && logged.every((session) => isPhaseLogged(sessions, session));
+      // Logged before the timer moves on, so other tabs see the log first
+      logSessions(logged);
+      setTimer(advanced);
+      if (isHandledElsewhere) return;
+      endedPhases.forEach((phase) => {
+        if (phase === "work") {
+          const breakMinutes =
+            advanced?.phase === "longBreak" ? settings.longBreakMinutes : settings.shortBreakMinutes;
+          addToast(`🍅 Focus session done — take a ${breakMinutes}-minute break`, "success");
+        } else {
+          const text = getTodoText(timer!.todoId);
+          addToast(`☕ Break's over — resume "${text}" when you're ready`, "info");
+        }
+      });
+      return;
+    }
+
+    if (!timer || timer.pausedAt !== undefined) return;
+    const endsAt = timer.phaseStartedAt + getPhaseLength(timer.phase, settings);
+    const delay = Math.min(endsAt - now, MAX_TIMER_DELAY);
+    const timeout = setTimeout(() => setTick((t) => t + 1), delay);
+    return () => clearTimeout(timeout);
+  }, [timer, settings, sessions, tick, logSessions, setTimer, addToast, getTodoText]);
+
+  const stopFocus = useCallback(() => {
+    const session = timer && pauseFocusTimer(timer, Date.now()).session;
+    if (session) logSessions([session]);
+    setTimer(null);
+  }, [timer, logSessions, setTimer]);
+
+  // Stop when the todo being focused on is deleted or archived
+  useEffect(() => {
+    if (timer && !todos.some((todo) => todo.id === timer.todoId)) stopFocus();
+  }, [timer, todos, stopFocus]);
+
+  const startFocus = useCallback(
+    (todoId: number) => {
+      const now = Date.now();
+      // Switching todos logs the work done so far and keeps the pomodoro count going
+      const session = timer && pauseFocusTimer(timer, now).session;
+      if (session) logSessions([session]);
+      setTimer(startFocusTimer(todoId, timer?.cycle ?? 0, now));
+    },
+    [timer, logSessions, setTimer]
+  );
+
+  const pauseFocus = useCallback(() => {
+    if (!timer) return;
+    const { timer: paused, session } = pauseFocusTimer(timer, Date.now());
+    if (session) logSessions([session]);
+    setTimer(paused);
+  }, [timer, logSessions, setTimer]);
+
+  const resumeFocus = useCallback(() => {
+    if (timer) setTimer(resumeFocusTimer(timer, Date.now()));
+  }, [timer, setTimer]);
+
+  const updateFocusSettings = useCallback(
+    (changes: Partial<FocusSettings>) => setSettings((prev) => ({ ...prev, ...changes })),
+    [setSettings]
+  );
+
+  return (
+    <FocusContext.Provider
+      value={{
+        timer,
+        settings,
+        sessions,
+        trackedTime,
+        startFocus,
+        pauseFocus,
+        resumeFocus,
+        stopFocus,
+        updateFocusSettings,
+      }}
+    >
+      {children}
+    </FocusContext.Provider>
+  );
+}
+
+export function useFocus() {
+  const context = useContext(FocusContext);
+  if (context === undefined) {
+    throw new Error("useFocus must be used within a FocusProvider");
+  }
+  return context;
+}
@@ -1,9 +1,20 @@
+import Link from "./Link";
+import { useRouter } from "./RouterContext";
 import { useTheme } from "./ThemeContext";
 import { useToast } from "./ToastContext";
+import { Page } from "./utils/routes";
+
+const NAV_LINKS: { to: string; page: Page; label: string; testId: string }[] = [
+  { to: "/", page: "todos", label: "Home", testId: "nav-link-home" },
+  { to: "/stats", page: "stats", label: "Stats", testId: "nav-link-stats" },
+  { to: "/about", page: "about", label: "About", testId: "nav-link-about" },
+  { to: "/contact", page: "contact", label: "Contact", testId: "nav-link-contact" },
+];
 
 function Header() {
   const { theme, toggleTheme } = useTheme();
   const { addToast } = useToast();
+  const { route } = useRouter();
 
   const handleThemeToggle = () => {
     toggleTheme();
@@ -13,25 +24,25 @@ function Header() {
 
   return (
     <nav className="nav-header" data-testid="nav-header">
-      <a href="/" className="nav-logo" data-testid="nav-logo">
+      <Link to="/" className="nav-logo" data-testid="nav-logo">
         Webby Test
-      </a>
+      </Link>
       <ul className="nav-links">
-        <li>
-          <a href="/" data-testid="nav-link-home">
-            Home
-          </a>
-        </li>
-        <li>
-          <a href="/about" data-testid="nav-link-about">
-            About
-          </a>
-        </li>
-        <li>
-          <a href="/contact" data-testid="nav-link-contact">
-            Contact
-          </a>
-        </li>
+        {NAV_LINKS.map(({ to, page, label, testId }) => {
+          const isActive = route.page === page;
+          return (
+            <li key={page}>
+              <Link
+                to={to}
+                className={isActive ? "active" : undefined}
+                data-testid={testId}
+                aria-current={isActive ? "page" : undefined}
+              >
+                {label}
+              </Link>
+            </li>
+          );
+        })}
       </ul>
       <button
         className="theme-toggle"
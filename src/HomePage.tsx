@@ -0,0 +1,18 @@
+import Counter from "./Counter";
+import ListSidebar from "./ListSidebar";
+import TodoList from "./TodoList";
+
+function HomePage() {
+  return (
+    <div className="page home-page" data-testid="home-page">
+      <p>Welcome! This app will be expanded with new features.</p>
+      <Counter />
+      <div className="todo-workspace" data-testid="todo-workspace">
+        <ListSidebar />
+        <TodoList />
+      </div>
+    </div>
+  );
+}
+
+export default HomePage;
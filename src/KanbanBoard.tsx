@@ -0,0 +1,251 @@
+import { useState, useMemo } from "react";
+import { Category, useCategories } from "./CategoryContext";
+import CategoryTag from "./CategoryTag";
+import { DueBucket, getDueBucket, sortByManualOrder } from "./todoFilters";
+import { PriorityType, Todo } from "./todoReducer";
+import { DropPosition, useTodoDrag } from "./useTodoDrag";
+import { addDays, toLocalDateString } from "./utils/date";
+
+export type BoardGrouping = "status" | "category" | "priority" | "due";
+
+export interface BoardColumn {
+  key: string;
+  label: string;
+  color?: string;
+}
+
+interface KanbanBoardProps {
+  todos: Todo[];
+  order: number[];
+  grouping: BoardGrouping;
+  priorities: { value: PriorityType; label: string; emoji: string }[];
+  onGroupingChange: (grouping: BoardGrouping) => void;
+  onToggle: (id: number) => void;
+  // targetId is missing when the card was dropped on a column's empty space
+  onMove: (id: number, column: BoardColumn, targetId?: number, position?: DropPosition) => void;
+}
+
+// Column key for todos without a category
+const NO_CATEGORY = "__none__";
+
+const GROUPING_LABELS: Record<BoardGrouping, string> = {
+  status: "Status",
+  category: "Category",
+  priority: "Priority",
+  due: "Due date",
+};
+
+const DUE_COLUMNS: { key: DueBucket; label: string }[] = [
+  { key: "overdue", label: "Overdue" },
+  { key: "today", label: "Today" },
+  { key: "upcoming", label: "Upcoming" },
+  { key: "none", label: "No due date" },
+];
+
+export function getBoardColumns(
+  grouping: BoardGrouping,
+  categories: Category[],
+  priorities: KanbanBoardProps["priorities"]
+): BoardColumn[] {
+  switch (grouping) {
+    case "status":
+      return [
+        { key: "active", label: "Active" },
+        { key: "completed", label: "Completed" },
+      ];
+    case "category":
+      return [
+        ...categories.map((c) => ({ key: c.id, label: `${c.icon} ${c.name}`.trim(), color: c.color })),
+        { key: NO_CATEGORY, label: "No category" },
+      ];
+    case "priority":
+      return priorities.map((p) => ({ key: p.value, label: `${p.emoji} ${p.label}` }));
+    case "due":
+      return DUE_COLUMNS;
+  }
+}
+
+/**
+ * Returns the column a todo belongs to under a grouping.
+ * @param todo The todo
+ * @param grouping How the board is grouped
+ * @param categories The category registry, so todos with unknown categories land in "No category"
+ * @returns The column key
+ */
+export function getBoardColumnKey(todo: Todo, grouping: BoardGrouping, categories: Category[]): string {
+  switch (grouping) {
+    case "status":
+      return todo.completed ? "completed" : "active";
+    case "category":
+      return categories.some((c) => c.id === todo.category) ? todo.category! : NO_CATEGORY;
+    case "priority":
+      return todo.priority;
+    case "due":
+      return getDueBucket(todo);
+  }
+}
+
+/**
+ * Returns the field changes that move a todo into a column.
+ * Due buckets map to a representative date: yesterday, today or tomorrow.
+ * @param grouping How the board is grouped
+ * @param columnKey The column the todo was dropped in
+ * @returns The changes to apply to the todo
+ */
+export function getBoardColumnChanges(
+  grouping: BoardGrouping,
+  columnKey: string
+): Partial<Omit<Todo, "id">> {
+  switch (grouping) {
+    case "status":
+      return { completed: columnKey === "completed" };
+    case "category":
+      return { category: columnKey === NO_CATEGORY ? undefined : columnKey };
+    case "priority":
+      return { priority: columnKey as PriorityType };
+    case "due": {
+      const offsets: Record<string, number> = { overdue: -1, today: 0, upcoming: 1 };
+      return {
+        dueDate:
+          columnKey in offsets ? toLocalDateString(addDays(new Date(), offsets[columnKey])) : undefined,
+      };
+    }
+  }
+}
+
+function KanbanBoard({ todos, order, grouping, priorities, onGroupingChange, onToggle, onMove }: KanbanBoardProps) {
+  const { categories } = useCategories();
+  const [dropColumnKey, setDropColumnKey] = useState<string | null>(null);
+
+  const columns = useMemo(
+    () => getBoardColumns(grouping, categories, priorities),
+    [grouping, categories, priorities]
+  );
+
+  // Cards keep the manual order within each column, whatever the list's sort
+  const cardsByColumn = useMemo(() => {
+    const map = new Map<string, Todo[]>(columns.map((column) => [column.key, []]));
+    sortByManualOrder(todos, order).forEach((todo) => {
+      map.get(getBoardColumnKey(todo, grouping, categories))?.push(todo);
+    });
+    return map;
+  }, [todos, order, columns, grouping, categories]);
+
+  const findColumn = (todoId: number) => {
+    const todo = todos.find((t) => t.id === todoId);
+    const key = todo && getBoardColumnKey(todo, grouping, categories);
+    return columns.find((column) => column.key === key);
+  };
+
+  const {
+    draggedId,
+    dropTargetId,
+    dropPosition,
+    handleDragStart,
+    handleDragEnd,
+    handleDragOver,
+    handleDragLeave,
+    handleDrop,
+  } = useTodoDrag((droppedId, targetId, position) => {
+    setDropColumnKey(null);
+    const column = findColumn(targetId);
+    if (column) onMove(droppedId, column, targetId, position);
+  });
+
+  const handleColumnDrop = (e: React.DragEvent, column: BoardColumn) => {
+    e.preventDefault();
+    setDropColumnKey(null);
+    const droppedId = parseInt(e.dataTransfer.getData("text/plain"), 10);
+    if (!isNaN(droppedId)) onMove(droppedId, column);
+    handleDragEnd();
+  };
+
+  return (
+    <div className="kanban-board" data-testid="kanban-board">
+      <div className="kanban-toolbar">
+        <label htmlFor="kanban-grouping-select" className="todo-sort-label">
+          Group by:
+        </label>
+        <select
+          id="kanban-grouping-select"
+          className="todo-sort-select"
+          data-testid="kanban-grouping-select"
+          value={grouping}
+          onChange={(e) => onGroupingChange(e.target.value as BoardGrouping)}
+        >
+          {(Object.keys(GROUPING_LABELS) as BoardGrouping[]).map((key) => (
+            <option key={key} value={key}>
+              {GROUPING_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="kanban-columns">
+        {columns.map((column) => {
+          const cards = cardsByColumn.get(column.key) ?? [];
+          return (
+            <section
+              key={column.key}
+              className={`kanban-column ${dropColumnKey === column.key ? "kanban-column-drop-target" : ""}`}
+              data-testid={`kanban-column-${column.key}`}
+              style={{ borderTopColor: column.color }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+                setDropColumnKey(column.key);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropColumnKey(null);
+              }}
+              onDrop={(e) => handleColumnDrop(e, column)}
+            >
+              <h4 className="kanban-column-header">
+                <span>{column.label}</span>
+                <span className="kanban-column-count" data-testid="kanban-column-count">
+                  {cards.length}
+                </span>
+              </h4>
+              <ul className="kanban-cards">
+                {cards.map((todo) => {
+                  const priority = priorities.find((p) => p.value === todo.priority);
+                  return (
+                    <li
+                      key={todo.id}
+                      className={`kanban-card ${todo.completed ? "completed" : ""} ${draggedId === todo.id ? "kanban-card-dragging" : ""} ${dropTargetId === todo.id && dropPosition ? `kanban-card-drop-${dropPosition}` : ""}`}
+                      data-testid="kanban-card"
+                      data-todo-id={todo.id}
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, todo.id)}
+                      onDragEnd={handleDragEnd}
+                      onDragOver={(e) => handleDragOver(e, todo.id)}
+                      onDragLeave={handleDragLeave}
+                      onDrop={(e) => handleDrop(e, todo.id)}
+                    >
+                      <input
+                        type="checkbox"
+                        className="kanban-card-checkbox"
+                        data-testid="kanban-card-checkbox"
+                        checked={todo.completed}
+                        onChange={() => onToggle(todo.id)}
+                        aria-label={`Mark "${todo.text}" ${todo.completed ? "active" : "complete"}`}
+                      />
+                      <span className="kanban-card-text">{todo.text}</span>
+                      <span className="kanban-card-meta">
+                        <span title={`Priority: ${priority?.label}`}>{priority?.emoji}</span>
+                        {todo.category && <CategoryTag categoryId={todo.category} />}
+                        {todo.dueDate && <span className="kanban-card-due">📅 {todo.dueDate}</span>}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default KanbanBoard;
@@ -0,0 +1,36 @@
+import { AnchorHTMLAttributes, MouseEvent } from "react";
+import { useRouter } from "./RouterContext";
+
+interface LinkProps extends AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+}
+
+// An <a> that navigates without reloading; modified clicks (new tab, etc.) behave as usual
+function Link({ to, onClick, children, ...rest }: LinkProps) {
+  const { navigate } = useRouter();
+
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      e.altKey ||
+      (rest.target && rest.target !== "_self")
+    ) {
+      return;
+    }
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={handleClick} {...rest}>
+      {children}
+    </a>
+  );
+}
+
+export default Link;
@@ -0,0 +1,215 @@
+import { createContext, useContext, useCallback, useEffect, useState, ReactNode } from "react";
+import { useTodos } from "./TodoContext";
+import { sortByManualOrder } from "./todoFilters";
+import { Todo } from "./todoReducer";
+import { usePersistedState } from "./usePersistedState";
+import { StorageSchema, loadPersisted, savePersisted, validateRecords } from "./utils/storage";
+
+export interface TaskList {
+  id: string; // Stored on todos; stays the same when the list is renamed
+  name: string;
+  color: string; // Hex color, e.g. #3b82f6
+}
+
+// The sidebar entry that shows every list at once
+export const ALL_LISTS = "all";
+
+// Todos without a (known) list belong here; it can't be deleted
+export const DEFAULT_LIST_ID = "inbox";
+
+interface ListContextType {
+  lists: TaskList[];
+  activeListId: string; // A list id or ALL_LISTS
+  setActiveListId: (id: string) => void;
+  getList: (id: string | undefined) => TaskList | undefined;
+  getTodoListId: (todo: Todo) => string;
+  addList: (name: string, color: string) => TaskList;
+  updateList: (id: string, changes: Partial<Omit<TaskList, "id">>) => void;
+  moveList: (id: string, toIndex: number) => void;
+  deleteList: (id: string, reassignTo?: string) => void;
+  moveTodosToList: (ids: number[], listId: string) => void;
+}
+
+const ListContext = createContext<ListContextType | undefined>(undefined);
+
+export const DEFAULT_LISTS: TaskList[] = [{ id: DEFAULT_LIST_ID, name: "Inbox", color: "#6b7280" }];
+
+function validateList(raw: unknown): TaskList | null {
+  const list = raw as Partial<TaskList> | null;
+  if (
+    typeof list?.id !== "string" ||
+    !list.id ||
+    list.id === ALL_LISTS ||
+    typeof list.name !== "string" ||
+    typeof list.color !== "string" ||
+    !/^#[0-9a-f]{6}$/i.test(list.color)
+  ) {
+    return null;
+  }
+  return { id: list.id, name: list.name, color: list.color };
+}
+
+const listsSchema: StorageSchema<TaskList[]> = {
+  key: "todo-lists",
+  migrations: [(data) => data],
+  validate: (data) => {
+    const result = validateRecords(data, validateList);
+    if (!result) return null;
+    // The default list always exists, even if it went missing from storage
+    return result.value.some((list) => list.id === DEFAULT_LIST_ID)
+      ? result
+      : { ...result, value: [...DEFAULT_LISTS, ...result.value] };
+  },
+  fallback: () => DEFAULT_LISTS,
+};
+
+// Kept per tab (loaded once, not synced) so switching lists in one tab leaves the others be
+const activeListSchema: StorageSchema<string> = {
+  key: "todo-active-list",
+  migrations: [(data) => data],
+  validate: (data) => (typeof data === "string" && data ? { value: data, invalid: 0 } : null),
+  fallback: () => ALL_LISTS,
+};
+
+// "Groceries & errands" -> "groceries-errands", suffixed when already taken
+function createListId(name: string, existing: TaskList[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "list";
+  let id = base === ALL_LISTS ? "all-list" : base;
+  for (let n = 2; existing.some((l) => l.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+export function ListProvider({ children }: { children: ReactNode }) {
+  const [lists, setLists] = usePersistedState(listsSchema);
+  const [activeListId, setActiveListId] = useState(() => loadPersisted(activeListSchema));
+  const { todos, trashedTodos, archivedTodos, todoOrder, moveTodos, deleteTodos } = useTodos();
+
+  useEffect(() => {
+    savePersisted(activeListSchema, activeListId);
+  }, [activeListId]);
+
+  // Fall back to all lists when the active one is deleted
+  useEffect(() => {
+    if (activeListId !== ALL_LISTS && !lists.some((l) => l.id === activeListId)) {
+      setActiveListId(ALL_LISTS);
+    }
+  }, [activeListId, lists, setActiveListId]);
+
+  const getList = useCallback((id: string | undefined) => lists.find((l) => l.id === id), [lists]);
+
+  const getTodoListId = useCallback(
+    (todo: Todo) =>
+      todo.listId && lists.some((l) => l.id === todo.listId) ? todo.listId : DEFAULT_LIST_ID,
+    [lists]
+  );
+
+  const addList = useCallback(
+    (name: string, color: string) => {
+      const list: TaskList = { id: createListId(name, lists), name, color };
+      setLists((prev) => [...prev, list]);
+      return list;
+    },
+    [lists, setLists]
+  );
+
+  const updateList = useCallback(
+    (id: string, changes: Partial<Omit<TaskList, "id">>) => {
+      setLists((prev) => prev.map((l) => (l.id === id ? { ...l, ...changes } : l)));
+    },
+    [setLists]
+  );
+
+  const moveList = useCallback(
+    (id: string, toIndex: number) => {
+      setLists((prev) => {
+        const fromIndex = prev.findIndex((l) => l.id === id);
+        if (fromIndex === -1 || toIndex < 0 || toIndex >= prev.length) return prev;
+        const next = [...prev];
+        const [moved] = next.splice(fromIndex, 1);
+        next.splice(toIndex, 0, moved);
+        return next;
+      });
+    },
+    [setLists]
+  );
+
+  /*
+   * Lists share the manual order: a list's order is the todo-order filtered to its todos,
+   * so reordering inside one list never disturbs another. Moved todos go to the end of
+   * their new list, as one undo step.
+   */
+  const moveTodosToList = useCallback(
+    (ids: number[], listId: string) => {
+      const moving = new Set(ids);
+      const members = new Set(
+        todos
+          .filter((todo) => !moving.has(todo.id) && getTodoListId(todo) === listId)
+          .map((todo) => todo.id)
+      );
+      const order =
+        todoOrder.length > 0 ? todoOrder : sortByManualOrder(todos, []).map((todo) => todo.id);
+      const rest = order.filter((id) => !moving.has(id));
+      let insertAt = rest.length;
+      for (let i = rest.length - 1; i >= 0; i--) {
+        if (members.has(rest[i])) {
+          insertAt = i + 1;
+          break;
+        }
+      }
+      rest.splice(insertAt, 0, ...ids);
+      moveTodos(ids, { listId }, rest);
+    },
+    [todos, todoOrder, getTodoListId, moveTodos]
+  );
+
+  // Removes a list; its todos move to reassignTo, or to the trash when there's none
+  const deleteList = useCallback(
+    (id: string, reassignTo?: string) => {
+      if (id === DEFAULT_LIST_ID) return;
+      if (reassignTo) {
+        // Trashed and archived todos move too, so restoring them lands in the new list
+        const affected = [...todos, ...trashedTodos, ...archivedTodos]
+          .filter((t) => t.listId === id)
+          .map((t) => t.id);
+        if (affected.length > 0) moveTodosToList(affected, reassignTo);
+      } else {
+        // Restored later, they fall back to the default list (see getTodoListId)
+        const affected = todos.filter((t) => t.listId === id).map((t) => t.id);
+        if (affected.length > 0) deleteTodos(affected);
+      }
+      setLists((prev) => prev.filter((l) => l.id !== id));
+    },
+    [todos, trashedTodos, archivedTodos, moveTodosToList, deleteTodos, setLists]
+  );
+
+  return (
+    <ListContext.Provider
+      value={{
+        lists,
+        activeListId,
+        setActiveListId,
+        getList,
+        getTodoListId,
+        addList,
+        updateList,
+        moveList,
+        deleteList,
+        moveTodosToList,
+      }}
+    >
+      {children}
+    </ListContext.Provider>
+  );
+}
+
+export function useLists() {
+  const context = useContext(ListContext);
+  if (context === undefined) {
+    throw new Error("useLists must be used within a ListProvider");
+  }
+  return context;
+}
@@ -0,0 +1,282 @@
+import { useState, useMemo } from "react";
+import { ALL_LISTS, DEFAULT_LIST_ID, useLists } from "./ListContext";
+import { useTodos } from "./TodoContext";
+import { useToast } from "./ToastContext";
+
+const DEFAULT_NEW_COLOR = "#3b82f6";
+
+// Switches between todo lists and manages them; todos can be dropped on a list to move them
+function ListSidebar() {
+  const {
+    lists,
+    activeListId,
+    setActiveListId,
+    getTodoListId,
+    addList,
+    updateList,
+    moveList,
+    deleteList,
+    moveTodosToList,
+  } = useLists();
+  const { todos, createUndoAction } = useTodos();
+  const { addToast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_NEW_COLOR);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState(DEFAULT_LIST_ID);
+  const [dropListId, setDropListId] = useState<string | null>(null);
+
+  // Open todos per list
+  const openCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    todos.forEach((todo) => {
+      if (todo.completed) return;
+      const listId = getTodoListId(todo);
+      counts.set(listId, (counts.get(listId) ?? 0) + 1);
+    });
+    return counts;
+  }, [todos, getTodoListId]);
+  const totalOpen = todos.filter((todo) => !todo.completed).length;
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (lists.some((l) => l.name.toLowerCase() === name.toLowerCase())) {
+      addToast(`A list named "${name}" already exists`, "error");
+      return;
+    }
+    const list = addList(name, newColor);
+    setNewName("");
+    setActiveListId(list.id);
+    addToast(`Added list "${name}"`, "success");
+  };
+
+  const handleRename = (id: string, value: string) => {
+    const name = value.trim();
+    const list = lists.find((l) => l.id === id);
+    if (!list || !name || name === list.name) return;
+    updateList(id, { name });
+  };
+
+  const startDelete = (id: string) => {
+    setDeletingId(id);
+    setReassignTo(DEFAULT_LIST_ID);
+  };
+
+  const confirmDelete = (id: string) => {
+    const list = lists.find((l) => l.id === id);
+    const target = lists.find((l) => l.id === reassignTo);
+    const count = todos.filter((t) => t.listId === id).length;
+    deleteList(id, target?.id);
+    setDeletingId(null);
+    addToast(
+      `Deleted list "${list?.name}"` +
+        (count === 0
+          ? ""
+          : target
+            ? `, moved ${count} todo(s) to ${target.name}`
+            : `, moved ${count} todo(s) to the trash`),
+      "success"
+    );
+  };
+
+  const handleDrop = (e: React.DragEvent, listId: string) => {
+    e.preventDefault();
+    setDropListId(null);
+    const id = parseInt(e.dataTransfer.getData("text/plain"), 10);
+    const todo = todos.find((t) => t.id === id);
+    const list = lists.find((l) => l.id === listId);
+    if (!todo || !list || getTodoListId(todo) === listId) return;
+    moveTodosToList([id], listId);
+    addToast(`Moved "${todo.text}" to ${list.name}`, "info", createUndoAction());
+  };
+
+  return (
+    <aside className="list-sidebar" data-testid="list-sidebar" aria-label="Todo lists">
+      <div className="list-sidebar-header">
+        <h4>Lists</h4>
+        <button
+          className="saved-view-action"
+          data-testid="list-sidebar-edit-toggle"
+          onClick={() => {
+            setIsEditing(!isEditing);
+            setDeletingId(null);
+          }}
+          aria-pressed={isEditing}
+        >
+          {isEditing ? "Done" : "Edit"}
+        </button>
+      </div>
+
+      <ul className="list-sidebar-items">
+        <li>
+          <button
+            className={`list-sidebar-item ${activeListId === ALL_LISTS ? "active" : ""}`}
+            data-testid="list-sidebar-all"
+            onClick={() => setActiveListId(ALL_LISTS)}
+            aria-current={activeListId === ALL_LISTS ? "true" : undefined}
+          >
+            <span className="list-sidebar-name">All lists</span>
+            <span className="list-sidebar-count" data-testid="list-sidebar-count">
+              {totalOpen}
+            </span>
+          </button>
+        </li>
+        {lists.map((list, index) => {
+          const count = openCounts.get(list.id) ?? 0;
+          const others = lists.filter((l) => l.id !== list.id);
+          return (
+            <li
+              key={list.id}
+              className={`list-sidebar-row ${dropListId === list.id ? "list-sidebar-drop-target" : ""}`}
+              data-testid="list-sidebar-row"
+              data-list-id={list.id}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+                setDropListId(list.id);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropListId(null);
+              }}
+              onDrop={(e) => handleDrop(e, list.id)}
+            >
+              {isEditing ? (
+                <div className="list-sidebar-edit">
+                  <input
+                    type="color"
+                    className="category-color-input"
+                    data-testid="list-color-input"
+                    value={list.color}
+                    onChange={(e) => updateList(list.id, { color: e.target.value })}
+                    aria-label={`Color for ${list.name}`}
+                  />
+                  <input
+                    key={`name-${list.name}`}
+                    type="text"
+                    className="category-name-input"
+                    data-testid="list-name-input"
+                    defaultValue={list.name}
+                    onBlur={(e) => handleRename(list.id, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+                    }}
+                    aria-label={`Rename ${list.name}`}
+                  />
+                  <button
+                    className="saved-view-action"
+                    data-testid="list-move-up"
+                    onClick={() => moveList(list.id, index - 1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${list.name} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className="saved-view-action"
+                    data-testid="list-move-down"
+                    onClick={() => moveList(list.id, index + 1)}
+                    disabled={index === lists.length - 1}
+                    aria-label={`Move ${list.name} down`}
+                  >
+                    ↓
+                  </button>
+                  {list.id !== DEFAULT_LIST_ID && (
+                    <button
+                      className="saved-view-action saved-view-delete"
+                      data-testid="list-delete-btn"
+                      onClick={() => startDelete(list.id)}
+                      aria-label={`Delete ${list.name}`}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <button
+                  className={`list-sidebar-item ${activeListId === list.id ? "active" : ""}`}
+                  data-testid="list-sidebar-item"
+                  onClick={() => setActiveListId(list.id)}
+                  aria-current={activeListId === list.id ? "true" : undefined}
+                >
+                  <span className="list-sidebar-dot" style={{ backgroundColor: list.color }} />
+                  <span className="list-sidebar-name">{list.name}</span>
+                  <span className="list-sidebar-count" data-testid="list-sidebar-count">
+                    {count}
+                  </span>
+                </button>
+              )}
+
+              {deletingId === list.id && (
+                <div className="category-delete-confirm" data-testid="list-delete-confirm">
+                  <label>
+                    Move its todos to{" "}
+                    <select
+                      data-testid="list-delete-reassign"
+                      value={reassignTo}
+                      onChange={(e) => setReassignTo(e.target.value)}
+                    >
+                      {others.map((other) => (
+                        <option key={other.id} value={other.id}>
+                          {other.name}
+                        </option>
+                      ))}
+                      <option value="">the trash</option>
+                    </select>
+                  </label>
+                  <button
+                    className="saved-view-action saved-view-delete"
+                    data-testid="list-delete-confirm-btn"
+                    onClick={() => confirmDelete(list.id)}
+                  >
+                    Delete
+                  </button>
+                  <button
+                    className="saved-view-action"
+                    data-testid="list-delete-cancel"
+                    onClick={() => setDeletingId(null)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="list-sidebar-add">
+        <input
+          type="color"
+          className="category-color-input"
+          data-testid="list-new-color"
+          value={newColor}
+          onChange={(e) => setNewColor(e.target.value)}
+          aria-label="Color for new list"
+        />
+        <input
+          type="text"
+          className="category-name-input"
+          data-testid="list-new-name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="New list"
+        />
+        <button
+          className="todo-filter-btn"
+          data-testid="list-add-btn"
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+        >
+          Add
+        </button>
+      </div>
+    </aside>
+  );
+}
+
+export default ListSidebar;
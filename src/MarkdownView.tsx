@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { MarkdownInline, parseMarkdown } from "./utils/markdown";
+
+interface MarkdownViewProps {
+  source: string;
+  className?: string;
+}
+
+function renderInline(nodes: MarkdownInline[]) {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return <code key={i}>{node.text}</code>;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "link":
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+// Renders Markdown as React elements, so notes never reach the DOM as raw HTML
+function MarkdownView({ source, className = "" }: MarkdownViewProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={`markdown-view ${className}`} data-testid="markdown-view">
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case "paragraph":
+            return <p key={i}>{renderInline(block.children)}</p>;
+          case "heading": {
+            // Notes sit inside the page, so headings start below the page's own levels
+            const Heading = `h${Math.min(block.level + 3, 6)}` as "h4" | "h5" | "h6";
+            return <Heading key={i}>{renderInline(block.children)}</Heading>;
+          }
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={i}>
+                {block.items.map((item, j) => (
+                  <li key={j}>{renderInline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+          case "quote":
+            return <blockquote key={i}>{renderInline(block.children)}</blockquote>;
+          case "code":
+            return (
+              <pre key={i}>
+                <code>{block.text}</code>
+              </pre>
+            );
+        }
+      })}
+    </div>
+  );
+}
+
+export default MarkdownView;
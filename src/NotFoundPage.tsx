@@ -0,0 +1,23 @@
+import Link from "./Link";
+import { useRouter } from "./RouterContext";
+
+function NotFoundPage() {
+  const { path } = useRouter();
+
+  return (
+    <div className="page not-found-page" data-testid="not-found-page">
+      <p className="not-found-code" aria-hidden="true">
+        404
+      </p>
+      <h2 className="page-title">Page not found</h2>
+      <p className="not-found-message" data-testid="not-found-message">
+        There's nothing at <code>{path}</code>.
+      </p>
+      <Link to="/" className="not-found-home-link" data-testid="not-found-home-link">
+        Back to your todos
+      </Link>
+    </div>
+  );
+}
+
+export default NotFoundPage;
@@ -0,0 +1,207 @@
+import { RecurrenceFrequency, RecurrenceRule, WEEKDAY_LABELS } from "./utils/recurrence";
+import { parseLocalDate } from "./utils/date";
+
+interface RecurrenceEditorProps {
+  rule?: RecurrenceRule;
+  baseDate: string; // ISO date string the series is anchored to
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+type EndType = "never" | "date" | "count";
+
+const ORDINAL_LABELS: Record<number, string> = {
+  1: "first",
+  2: "second",
+  3: "third",
+  4: "fourth",
+  [-1]: "last",
+};
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+};
+
+function RecurrenceEditor({ rule, baseDate, onChange }: RecurrenceEditorProps) {
+  const base = parseLocalDate(baseDate);
+  const baseWeek = Math.ceil(base.getDate() / 7);
+  const baseMonthWeek = baseWeek > 4 ? -1 : baseWeek;
+
+  const handleFrequencyChange = (value: RecurrenceFrequency | "none") => {
+    if (value === "none") {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      frequency: value,
+      interval: rule?.interval ?? 1,
+      weekdays: value === "weekly" ? [base.getDay()] : undefined,
+      monthDay: value === "monthly" ? base.getDate() : undefined,
+      endDate: rule?.endDate,
+      count: rule?.count,
+      occurrence: rule?.occurrence ?? 1,
+    });
+  };
+
+  const frequencySelect = (
+    <select
+      data-testid="recurrence-frequency-select"
+      className="recurrence-select"
+      value={rule?.frequency ?? "none"}
+      onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | "none")}
+    >
+      <option value="none">Does not repeat</option>
+      <option value="daily">Daily</option>
+      <option value="weekly">Weekly</option>
+      <option value="monthly">Monthly</option>
+    </select>
+  );
+
+  if (!rule) {
+    return (
+      <div className="recurrence-editor" data-testid="recurrence-editor">
+        {frequencySelect}
+      </div>
+    );
+  }
+
+  const endType: EndType = rule.count !== undefined ? "count" : rule.endDate ? "date" : "never";
+  const monthlyMode = rule.monthWeek !== undefined ? "weekday" : "day";
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = rule.weekdays ?? [];
+    const next = weekdays.includes(day)
+      ? weekdays.filter((d) => d !== day)
+      : [...weekdays, day];
+    // Keep at least one weekday selected
+    if (next.length === 0) return;
+    onChange({ ...rule, weekdays: next });
+  };
+
+  const handleEndTypeChange = (value: EndType) => {
+    if (value === "never") {
+      onChange({ ...rule, endDate: undefined, count: undefined });
+    } else if (value === "date") {
+      onChange({ ...rule, endDate: baseDate, count: undefined });
+    } else {
+      onChange({ ...rule, endDate: undefined, count: Math.max(rule.occurrence, 5) });
+    }
+  };
+
+  return (
+    <div className="recurrence-editor" data-testid="recurrence-editor">
+      <div className="recurrence-editor-row">
+        {frequencySelect}
+        <label className="recurrence-interval">
+          every
+          <input
+            type="number"
+            min={1}
+            data-testid="recurrence-interval-input"
+            className="recurrence-number-input"
+            value={rule.interval}
+            onChange={(e) =>
+              onChange({ ...rule, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })
+            }
+          />
+          {UNIT_LABELS[rule.frequency]}
+        </label>
+      </div>
+
+      {rule.frequency === "weekly" && (
+        <div className="recurrence-editor-row recurrence-weekdays">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              data-testid={`recurrence-weekday-${day}`}
+              className={`recurrence-weekday ${rule.weekdays?.includes(day) ? "active" : ""}`}
+              onClick={() => toggleWeekday(day)}
+              aria-pressed={rule.weekdays?.includes(day)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {rule.frequency === "monthly" && (
+        <div className="recurrence-editor-row">
+          <select
+            data-testid="recurrence-monthly-mode"
+            className="recurrence-select"
+            value={monthlyMode}
+            onChange={(e) =>
+              onChange(
+                e.target.value === "weekday"
+                  ? {
+                      ...rule,
+                      monthDay: undefined,
+                      monthWeek: baseMonthWeek,
+                      monthWeekday: base.getDay(),
+                    }
+                  : {
+                      ...rule,
+                      monthDay: base.getDate(),
+                      monthWeek: undefined,
+                      monthWeekday: undefined,
+                    }
+              )
+            }
+          >
+            <option value="day">On day {rule.monthDay ?? base.getDate()}</option>
+            <option value="weekday">
+              On the {ORDINAL_LABELS[rule.monthWeek ?? baseMonthWeek]}{" "}
+              {WEEKDAY_LABELS[rule.monthWeekday ?? base.getDay()]}
+            </option>
+          </select>
+        </div>
+      )}
+
+      <div className="recurrence-editor-row">
+        <span className="recurrence-label">Ends</span>
+        <select
+          data-testid="recurrence-end-select"
+          className="recurrence-select"
+          value={endType}
+          onChange={(e) => handleEndTypeChange(e.target.value as EndType)}
+        >
+          <option value="never">Never</option>
+          <option value="date">On date</option>
+          <option value="count">After</option>
+        </select>
+        {endType === "date" && (
+          <input
+            type="date"
+            data-testid="recurrence-end-date-input"
+            className="todo-due-date-input"
+            value={rule.endDate}
+            min={baseDate}
+            onChange={(e) => onChange({ ...rule, endDate: e.target.value || undefined })}
+          />
+        )}
+        {endType === "count" && (
+          <label className="recurrence-interval">
+            <input
+              type="number"
+              min={rule.occurrence}
+              data-testid="recurrence-count-input"
+              className="recurrence-number-input"
+              value={rule.count}
+              onChange={(e) =>
+                onChange({
+                  ...rule,
+                  count: Math.max(rule.occurrence, parseInt(e.target.value, 10) || 1),
+                })
+              }
+            />
+            occurrences
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RecurrenceEditor;
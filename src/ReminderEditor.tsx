@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { REMINDER_OPTIONS, describeReminder } from "./utils/reminders";
+
+interface ReminderEditorProps {
+  reminders?: number[];
+  dueTime?: string;
+  dueAt: number | null; // When the todo is due, used to disable reminders already in the past
+  showTime?: boolean;
+  onChange: (changes: { reminders?: number[]; dueTime?: string }) => void;
+}
+
+function ReminderEditor({ reminders = [], dueTime, dueAt, showTime = false, onChange }: ReminderEditorProps) {
+  const [permission, setPermission] = useState(
+    typeof Notification === "undefined" ? "unsupported" : Notification.permission
+  );
+
+  const toggleReminder = (minutes: number) => {
+    const next = reminders.includes(minutes)
+      ? reminders.filter((m) => m !== minutes)
+      : [...reminders, minutes].sort((a, b) => a - b);
+    onChange({ reminders: next.length > 0 ? next : undefined });
+  };
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="recurrence-editor reminder-editor" data-testid="reminder-editor">
+      {showTime && (
+        <div className="recurrence-editor-row">
+          <label htmlFor="reminder-time-input">Due at</label>
+          <input
+            id="reminder-time-input"
+            type="time"
+            className="todo-due-time-input"
+            data-testid="reminder-time-input"
+            value={dueTime ?? ""}
+            onChange={(e) => onChange({ dueTime: e.target.value || undefined })}
+          />
+          {!dueTime && <span className="reminder-hint">Reminders use 09:00 without a time</span>}
+        </div>
+      )}
+      {dueAt === null ? (
+        <p className="reminder-hint">Set a due date to add reminders.</p>
+      ) : (
+        <div className="recurrence-editor-row" role="group" aria-label="Remind me">
+          <span>Remind me:</span>
+          {REMINDER_OPTIONS.map((minutes) => {
+            const isPast = dueAt - minutes * 60_000 < Date.now();
+            const isSelected = reminders.includes(minutes);
+            return (
+              <label
+                key={minutes}
+                className={`reminder-option ${isPast && !isSelected ? "reminder-option-past" : ""}`}
+                title={isPast ? "This time has already passed" : undefined}
+              >
+                <input
+                  type="checkbox"
+                  data-testid={`reminder-option-${minutes}`}
+                  checked={isSelected}
+                  disabled={isPast && !isSelected}
+                  onChange={() => toggleReminder(minutes)}
+                />
+                {describeReminder(minutes)}
+              </label>
+            );
+          })}
+        </div>
+      )}
+      {permission === "default" && (
+        <button
+          className="reminder-permission-btn"
+          data-testid="reminder-enable-notifications"
+          onClick={requestPermission}
+        >
+          🔔 Also notify me outside this tab
+        </button>
+      )}
+      {permission === "denied" && (
+        <span className="reminder-hint">Browser notifications are blocked; reminders appear in the app.</span>
+      )}
+    </div>
+  );
+}
+
+export default ReminderEditor;
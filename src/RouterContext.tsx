@@ -0,0 +1,46 @@
+import { createContext, useContext, useCallback, useEffect, useMemo, useState, ReactNode } from "react";
+import { Route, parseRoute } from "./utils/routes";
+
+interface NavigateOptions {
+  replace?: boolean; // Replace the current history entry instead of adding one
+}
+
+interface RouterContextType {
+  path: string;
+  route: Route;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+// Client-side routing on top of the History API; back and forward re-read the URL
+export function RouterProvider({ children }: { children: ReactNode }) {
+  const [path, setPath] = useState(() => window.location.pathname);
+
+  useEffect(() => {
+    const handlePopState = () => setPath(window.location.pathname);
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const navigate = useCallback((to: string, options: NavigateOptions = {}) => {
+    // Following a link to the current page shouldn't add a history entry
+    const replace = options.replace || to === window.location.pathname;
+    window.history[replace ? "replaceState" : "pushState"](null, "", to);
+    setPath(window.location.pathname);
+  }, []);
+
+  const route = useMemo(() => parseRoute(path), [path]);
+
+  return (
+    <RouterContext.Provider value={{ path, route, navigate }}>{children}</RouterContext.Provider>
+  );
+}
+
+export function useRouter() {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error("useRouter must be used within a RouterProvider");
+  }
+  return context;
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { SavedView } from "./useSavedViews";
+
+interface SavedViewsProps {
+  views: SavedView[];
+  activeViewId: number | null;
+  counts: Map<number, number>;
+  suggestedName: string;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onRename: (id: number, name: string) => void;
+  onDelete: (id: number) => void;
+  onTogglePin: (id: number) => void;
+  onMove: (id: number, direction: -1 | 1) => void;
+}
+
+function SavedViews({
+  views,
+  activeViewId,
+  counts,
+  suggestedName,
+  onApply,
+  onSave,
+  onRename,
+  onDelete,
+  onTogglePin,
+  onMove,
+}: SavedViewsProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [nameValue, setNameValue] = useState("");
+  const [isManaging, setIsManaging] = useState(false);
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const pinnedViews = views.filter((v) => v.pinned);
+
+  const handleSave = () => {
+    onSave(nameValue.trim() || suggestedName);
+    setNameValue("");
+    setIsSaving(false);
+  };
+
+  const handleRename = (id: number) => {
+    const trimmed = renameValue.trim();
+    if (trimmed) onRename(id, trimmed);
+    setRenamingId(null);
+    setRenameValue("");
+  };
+
+  return (
+    <div className="saved-views" data-testid="saved-views">
+      <div className="saved-views-tabs" data-testid="saved-views-tabs" role="tablist">
+        {pinnedViews.map((view) => (
+          <button
+            key={view.id}
+            role="tab"
+            aria-selected={view.id === activeViewId}
+            className={`saved-view-tab ${view.id === activeViewId ? "active" : ""}`}
+            data-testid="saved-view-tab"
+            onClick={() => onApply(view)}
+          >
+            {view.name}
+            <span className="saved-view-count" data-testid="saved-view-count">
+              {counts.get(view.id) ?? 0}
+            </span>
+          </button>
+        ))}
+        {isSaving ? (
+          <span className="saved-view-save-form">
+            <input
+              type="text"
+              className="saved-view-name-input"
+              data-testid="saved-view-name-input"
+              value={nameValue}
+              onChange={(e) => setNameValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSave();
+                if (e.key === "Escape") setIsSaving(false);
+              }}
+              placeholder={suggestedName}
+              autoFocus
+            />
+            <button
+              className="saved-view-action"
+              data-testid="saved-view-confirm-btn"
+              onClick={handleSave}
+            >
+              Save
+            </button>
+          </span>
+        ) : (
+          <button
+            className="saved-view-action"
+            data-testid="saved-view-save-btn"
+            onClick={() => setIsSaving(true)}
+            disabled={activeViewId !== null}
+            title={activeViewId !== null ? "This view is already saved" : "Save current filters as a view"}
+          >
+            + Save view
+          </button>
+        )}
+        {views.length > 0 && (
+          <button
+            className="saved-view-action"
+            data-testid="saved-views-manage-btn"
+            onClick={() => setIsManaging(!isManaging)}
+            aria-expanded={isManaging}
+          >
+            Manage
+          </button>
+        )}
+      </div>
+
+      {isManaging && views.length > 0 && (
+        <ul className="saved-views-manager" data-testid="saved-views-manager">
+          {views.map((view, index) => (
+            <li key={view.id} className="saved-view-row" data-testid="saved-view-row">
+              {renamingId === view.id ? (
+                <input
+                  type="text"
+                  className="saved-view-name-input"
+                  data-testid="saved-view-rename-input"
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleRename(view.id);
+                    if (e.key === "Escape") setRenamingId(null);
+                  }}
+                  onBlur={() => handleRename(view.id)}
+                  autoFocus
+                />
+              ) : (
+                <span className="saved-view-row-name" data-testid="saved-view-row-name">
+                  {view.name}
+                </span>
+              )}
+              <label className="saved-view-pin">
+                <input
+                  type="checkbox"
+                  data-testid="saved-view-pin-toggle"
+                  checked={view.pinned}
+                  onChange={() => onTogglePin(view.id)}
+                />
+                Pinned
+              </label>
+              <button
+                className="saved-view-action"
+                data-testid="saved-view-rename-btn"
+                onClick={() => {
+                  setRenamingId(view.id);
+                  setRenameValue(view.name);
+                }}
+              >
+                Rename
+              </button>
+              <button
+                className="saved-view-action"
+                data-testid="saved-view-move-up"
+                onClick={() => onMove(view.id, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${view.name} up`}
+              >
+                ▲
+              </button>
+              <button
+                className="saved-view-action"
+                data-testid="saved-view-move-down"
+                onClick={() => onMove(view.id, 1)}
+                disabled={index === views.length - 1}
+                aria-label={`Move ${view.name} down`}
+              >
+                ▼
+              </button>
+              <button
+                className="saved-view-action saved-view-delete"
+                data-testid="saved-view-delete-btn"
+                onClick={() => onDelete(view.id)}
+                aria-label={`Delete ${view.name}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SavedViews;
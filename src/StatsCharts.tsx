@@ -0,0 +1,363 @@
+import { useMemo } from "react";
+import { useCategories } from "./CategoryContext";
+import { PriorityType, Todo } from "./todoReducer";
+import { usePersistedState } from "./usePersistedState";
+import { parseLocalDate } from "./utils/date";
+import {
+  BreakdownRow,
+  ChartPoint,
+  CompletionBucket,
+  STATS_RANGE_DAYS,
+  StatsRange,
+  formatDuration,
+  getAverageTimeToComplete,
+  getBreakdown,
+  getBurnSeries,
+  getCompletionSeries,
+  getRangeDates,
+} from "./utils/productivity";
+import { createEnumSchema } from "./utils/storage";
+
+interface StatsChartsProps {
+  todos: Todo[];
+}
+
+type BurnMode = "burnup" | "burndown";
+
+const rangeSchema = createEnumSchema<StatsRange>("todo-stats-range", ["7d", "30d", "90d"], "30d");
+const bucketSchema = createEnumSchema<CompletionBucket>("todo-stats-bucket", ["day", "week"], "day");
+const burnModeSchema = createEnumSchema<BurnMode>(
+  "todo-stats-burn-mode",
+  ["burnup", "burndown"],
+  "burnup"
+);
+
+const PRIORITY_LABELS: Record<PriorityType, string> = { high: "High", medium: "Medium", low: "Low" };
+
+// Chart geometry in SVG units; the SVG scales to the panel width
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING = { top: 10, right: 8, bottom: 20, left: 24 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+function formatShortDate(date: string): string {
+  return parseLocalDate(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+// Grid, y-axis maximum and first/last date labels shared by the time-series charts
+function ChartAxes({ max, dates }: { max: number; dates: string[] }) {
+  const bottom = PADDING.top + PLOT_HEIGHT;
+  return (
+    <g className="stats-chart-axes">
+      <line
+        className="stats-chart-grid"
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={PADDING.top}
+        y2={PADDING.top}
+      />
+      <line
+        className="stats-chart-axis"
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={bottom}
+        y2={bottom}
+      />
+      <text className="stats-chart-label" x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end">
+        {max}
+      </text>
+      <text className="stats-chart-label" x={PADDING.left - 4} y={bottom} textAnchor="end">
+        0
+      </text>
+      {dates.length > 0 && (
+        <>
+          <text className="stats-chart-label" x={PADDING.left} y={HEIGHT - 4}>
+            {formatShortDate(dates[0])}
+          </text>
+          <text className="stats-chart-label" x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end">
+            {formatShortDate(dates[dates.length - 1])}
+          </text>
+        </>
+      )}
+    </g>
+  );
+}
+
+function BarChart({ points, label }: { points: ChartPoint[]; label: string }) {
+  const max = Math.max(1, ...points.map((p) => p.value));
+  const slot = PLOT_WIDTH / Math.max(1, points.length);
+  const barWidth = Math.max(1, slot * 0.7);
+
+  return (
+    <svg
+      className="stats-chart"
+      data-testid="stats-chart-completions"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label={label}
+    >
+      <ChartAxes max={max} dates={points.map((p) => p.date)} />
+      {points.map((point, index) => {
+        const height = (point.value / max) * PLOT_HEIGHT;
+        return (
+          <rect
+            key={point.date}
+            className="stats-chart-bar"
+            data-testid="stats-chart-bar"
+            x={PADDING.left + index * slot + (slot - barWidth) / 2}
+            y={PADDING.top + PLOT_HEIGHT - height}
+            width={barWidth}
+            height={height}
+          >
+            <title>
+              {formatShortDate(point.date)}: {point.value}
+            </title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface LineSeries {
+  name: string;
+  className: string;
+  values: number[];
+}
+
+function LineChart({ dates, series, label }: { dates: string[]; series: LineSeries[]; label: string }) {
+  const max = Math.max(1, ...series.flatMap((s) => s.values));
+  const step = PLOT_WIDTH / Math.max(1, dates.length - 1);
+  const toPoints = (values: number[]) =>
+    values
+      .map((value, index) => {
+        const x = PADDING.left + index * step;
+        const y = PADDING.top + PLOT_HEIGHT - (value / max) * PLOT_HEIGHT;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(" ");
+
+  return (
+    <figure className="stats-chart-figure">
+      <svg
+        className="stats-chart"
+        data-testid="stats-chart-burn"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={label}
+      >
+        <ChartAxes max={max} dates={dates} />
+        {series.map((s) => (
+          <polyline
+            key={s.name}
+            className={`stats-chart-line ${s.className}`}
+            points={toPoints(s.values)}
+          />
+        ))}
+      </svg>
+      <figcaption className="stats-chart-legend">
+        {series.map((s) => (
+          <span key={s.name} className="stats-chart-legend-item" data-testid="stats-chart-legend-item">
+            <span className={`stats-chart-swatch ${s.className}`} />
+            {s.name} ({s.values[s.values.length - 1] ?? 0})
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+}
+
+// Horizontal stacked bars: completed in the range, then still open
+function BreakdownChart({
+  rows,
+  getLabel,
+  getColor,
+  testId,
+}: {
+  rows: BreakdownRow[];
+  getLabel: (key: string) => string;
+  getColor: (key: string) => string;
+  testId: string;
+}) {
+  if (rows.length === 0) {
+    return <p className="stats-chart-empty">Nothing to show yet.</p>;
+  }
+  const max = Math.max(1, ...rows.map((row) => row.completed + row.open));
+  const rowHeight = 20;
+
+  return (
+    <svg
+      className="stats-chart stats-breakdown"
+      data-testid={testId}
+      viewBox={`0 0 ${WIDTH} ${rows.length * rowHeight}`}
+      role="img"
+      aria-label={rows
+        .map((row) => `${getLabel(row.key)}: ${row.completed} completed, ${row.open} open`)
+        .join("; ")}
+    >
+      {rows.map((row, index) => {
+        const y = index * rowHeight;
+        const labelWidth = 96;
+        const scale = (WIDTH - labelWidth - 40) / max;
+        const completedWidth = row.completed * scale;
+        return (
+          <g key={row.key} data-testid="stats-breakdown-row">
+            <text className="stats-chart-label stats-breakdown-label" x={0} y={y + 14}>
+              {getLabel(row.key)}
+            </text>
+            <rect
+              className="stats-breakdown-completed"
+              x={labelWidth}
+              y={y + 4}
+              width={completedWidth}
+              height={12}
+              style={{ fill: getColor(row.key) }}
+            />
+            <rect
+              className="stats-breakdown-open"
+              x={labelWidth + completedWidth}
+              y={y + 4}
+              width={row.open * scale}
+              height={12}
+              style={{ stroke: getColor(row.key) }}
+            />
+            <text
+              className="stats-chart-label"
+              x={labelWidth + (row.completed + row.open) * scale + 4}
+              y={y + 14}
+            >
+              {row.completed}/{row.completed + row.open}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+// Historical charts for the statistics panel, drawn as plain SVG styled by the theme's CSS variables
+function StatsCharts({ todos }: StatsChartsProps) {
+  const { getCategory } = useCategories();
+  const [range, setRange] = usePersistedState(rangeSchema);
+  const [bucket, setBucket] = usePersistedState(bucketSchema);
+  const [burnMode, setBurnMode] = usePersistedState(burnModeSchema);
+
+  const dates = useMemo(() => getRangeDates(STATS_RANGE_DAYS[range]), [range]);
+  const since = parseLocalDate(dates[0]).getTime();
+
+  const completions = useMemo(() => getCompletionSeries(todos, dates, bucket), [todos, dates, bucket]);
+  const burn = useMemo(() => getBurnSeries(todos, dates), [todos, dates]);
+  const byCategory = useMemo(
+    () => getBreakdown(todos, (todo) => todo.category ?? "", since),
+    [todos, since]
+  );
+  const byPriority = useMemo(() => getBreakdown(todos, (todo) => todo.priority, since), [todos, since]);
+  const averageTime = useMemo(() => getAverageTimeToComplete(todos, since), [todos, since]);
+  const completedInRange = completions.reduce((sum, point) => sum + point.value, 0);
+
+  const burnSeries: LineSeries[] =
+    burnMode === "burnup"
+      ? [
+          { name: "Created", className: "stats-series-created", values: burn.map((p) => p.created) },
+          { name: "Completed", className: "stats-series-completed", values: burn.map((p) => p.completed) },
+        ]
+      : [{ name: "Remaining", className: "stats-series-remaining", values: burn.map((p) => p.remaining) }];
+
+  return (
+    <div className="stats-charts" data-testid="stats-charts">
+      <div className="stats-charts-toolbar">
+        <label className="stats-charts-range">
+          Range
+          <select
+            data-testid="stats-range-select"
+            value={range}
+            onChange={(e) => setRange(e.target.value as StatsRange)}
+          >
+            <option value="7d">Last 7 days</option>
+            <option value="30d">Last 30 days</option>
+            <option value="90d">Last 90 days</option>
+          </select>
+        </label>
+        <span className="stats-charts-summary" data-testid="stats-completed-in-range">
+          {completedInRange} completed
+        </span>
+        <span className="stats-charts-summary" data-testid="stats-average-time">
+          Avg. time to complete: {averageTime === null ? "—" : formatDuration(averageTime)}
+        </span>
+      </div>
+
+      <section className="stats-chart-card">
+        <div className="stats-chart-header">
+          <h4>Completions</h4>
+          <div className="stats-chart-toggle">
+            {(["day", "week"] as const).map((value) => (
+              <button
+                key={value}
+                className={`todo-filter-btn ${bucket === value ? "active" : ""}`}
+                data-testid={`stats-bucket-${value}`}
+                onClick={() => setBucket(value)}
+                aria-pressed={bucket === value}
+              >
+                Per {value}
+              </button>
+            ))}
+          </div>
+        </div>
+        <BarChart
+          points={completions}
+          label={`${completedInRange} todos completed per ${bucket} over the ${STATS_RANGE_DAYS[range]} days`}
+        />
+      </section>
+
+      <section className="stats-chart-card">
+        <div className="stats-chart-header">
+          <h4>{burnMode === "burnup" ? "Created vs. completed" : "Open todos"}</h4>
+          <div className="stats-chart-toggle">
+            {(["burnup", "burndown"] as const).map((value) => (
+              <button
+                key={value}
+                className={`todo-filter-btn ${burnMode === value ? "active" : ""}`}
+                data-testid={`stats-burn-${value}`}
+                onClick={() => setBurnMode(value)}
+                aria-pressed={burnMode === value}
+              >
+                {value === "burnup" ? "Burnup" : "Burndown"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <LineChart
+          dates={dates}
+          series={burnSeries}
+          label={burnSeries
+            .map((s) => `${s.name}: ${s.values[s.values.length - 1] ?? 0}`)
+            .join(", ")}
+        />
+      </section>
+
+      <div className="stats-breakdowns">
+        <section className="stats-chart-card">
+          <h4>By category</h4>
+          <BreakdownChart
+            rows={byCategory}
+            testId="stats-breakdown-category"
+            getLabel={(key) => (key ? getCategory(key)?.name ?? key : "No category")}
+            getColor={(key) => getCategory(key)?.color ?? "#9ca3af"}
+          />
+        </section>
+        <section className="stats-chart-card">
+          <h4>By priority</h4>
+          <BreakdownChart
+            rows={byPriority}
+            testId="stats-breakdown-priority"
+            getLabel={(key) => PRIORITY_LABELS[key as PriorityType]}
+            getColor={(key) => `var(--priority-${key}-color)`}
+          />
+        </section>
+      </div>
+    </div>
+  );
+}
+
+export default StatsCharts;
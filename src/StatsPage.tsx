@@ -0,0 +1,16 @@
+import { useTodos } from "./TodoContext";
+import TodoStats from "./TodoStats";
+
+// Stats across every list, given the full width of the page
+function StatsPage() {
+  const { todos, archivedTodos, trashedTodos } = useTodos();
+
+  return (
+    <div className="page stats-page" data-testid="stats-page">
+      <h2 className="page-title">Stats</h2>
+      <TodoStats todos={todos} archivedTodos={archivedTodos} trashedTodos={trashedTodos} />
+    </div>
+  );
+}
+
+export default StatsPage;
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useTodos } from "./TodoContext";
+import { Todo } from "./todoReducer";
+
+interface SubtaskListProps {
+  todo: Todo;
+}
+
+function SubtaskList({ todo }: SubtaskListProps) {
+  const { addSubtask, toggleSubtask, updateSubtask, deleteSubtask, moveSubtask, updateTodo } =
+    useTodos();
+  const [inputValue, setInputValue] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const subtasks = todo.subtasks ?? [];
+
+  const handleAdd = () => {
+    const trimmed = inputValue.trim();
+    if (!trimmed) return;
+    addSubtask(todo.id, { id: Date.now(), text: trimmed, completed: false });
+    setInputValue("");
+  };
+
+  const saveEdit = (subtaskId: number) => {
+    const trimmed = editValue.trim();
+    // Revert to original text if empty
+    if (trimmed) {
+      updateSubtask(todo.id, subtaskId, trimmed);
+    }
+    setEditingId(null);
+    setEditValue("");
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, subtaskId: number) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      saveEdit(subtaskId);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setEditingId(null);
+      setEditValue("");
+    }
+  };
+
+  // Keyboard reordering with Alt+Arrow keys, mirroring the parent list
+  const handleSubtaskKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (!e.altKey) return;
+    if (e.key === "ArrowUp" && index > 0) {
+      e.preventDefault();
+      moveSubtask(todo.id, index, index - 1);
+    } else if (e.key === "ArrowDown" && index < subtasks.length - 1) {
+      e.preventDefault();
+      moveSubtask(todo.id, index, index + 1);
+    }
+  };
+
+  return (
+    <div className="subtask-list" data-testid="subtask-list">
+      {subtasks.length > 0 && (
+        <ul className="subtask-items">
+          {subtasks.map((subtask, index) => (
+            <li
+              key={subtask.id}
+              className={`subtask-item ${subtask.completed ? "completed" : ""}`}
+              data-testid="subtask-item"
+              tabIndex={0}
+              onKeyDown={(e) => handleSubtaskKeyDown(e, index)}
+            >
+              <input
+                type="checkbox"
+                data-testid="subtask-checkbox"
+                checked={subtask.completed}
+                onChange={() => toggleSubtask(todo.id, subtask.id)}
+              />
+              {editingId === subtask.id ? (
+                <input
+                  type="text"
+                  data-testid="subtask-edit-input"
+                  className="todo-edit-input subtask-edit-input"
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onKeyDown={(e) => handleEditKeyDown(e, subtask.id)}
+                  onBlur={() => saveEdit(subtask.id)}
+                  autoFocus
+                />
+              ) : (
+                <span
+                  data-testid="subtask-text"
+                  className={`subtask-text ${subtask.completed ? "todo-completed" : ""}`}
+                  onDoubleClick={() => {
+                    setEditingId(subtask.id);
+                    setEditValue(subtask.text);
+                  }}
+                >
+                  {subtask.text}
+                </span>
+              )}
+              <button
+                className="subtask-btn"
+                data-testid="subtask-move-up"
+                onClick={() => moveSubtask(todo.id, index, index - 1)}
+                disabled={index === 0}
+                aria-label={`Move ${subtask.text} up`}
+              >
+                ▲
+              </button>
+              <button
+                className="subtask-btn"
+                data-testid="subtask-move-down"
+                onClick={() => moveSubtask(todo.id, index, index + 1)}
+                disabled={index === subtasks.length - 1}
+                aria-label={`Move ${subtask.text} down`}
+              >
+                ▼
+              </button>
+              <button
+                className="subtask-btn subtask-delete-btn"
+                data-testid="subtask-delete-btn"
+                onClick={() => deleteSubtask(todo.id, subtask.id)}
+                aria-label={`Delete ${subtask.text}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="subtask-input-row">
+        <input
+          type="text"
+          data-testid="subtask-input"
+          className="subtask-input"
+          value={inputValue}
+          onChange={(e) => setInputValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="Add a step..."
+        />
+        <button className="subtask-btn" data-testid="subtask-add-btn" onClick={handleAdd}>
+          Add
+        </button>
+      </div>
+      <label className="subtask-auto-complete">
+        <input
+          type="checkbox"
+          data-testid="subtask-auto-complete-toggle"
+          checked={!!todo.autoCompleteParent}
+          onChange={(e) => updateTodo(todo.id, { autoCompleteParent: e.target.checked })}
+        />
+        Complete this todo when all steps are done
+      </label>
+    </div>
+  );
+}
+
+export default SubtaskList;
@@ -0,0 +1,127 @@
+import { useState, useMemo } from "react";
+import { normalizeTag } from "./utils/tags";
+
+interface TagEditorProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+// Maximum number of autocomplete suggestions shown at once
+const SUGGESTION_LIMIT = 6;
+
+function TagEditor({ tags, suggestions, onChange, placeholder = "Add tags…", autoFocus }: TagEditorProps) {
+  const [inputValue, setInputValue] = useState("");
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const query = normalizeTag(inputValue);
+  const matches = useMemo(
+    () =>
+      suggestions
+        .filter((tag) => !tags.includes(tag) && (!query || tag.includes(query)))
+        // Prefix matches first, keeping the frequency order otherwise
+        .sort((a, b) => Number(b.startsWith(query)) - Number(a.startsWith(query)))
+        .slice(0, SUGGESTION_LIMIT),
+    [suggestions, tags, query]
+  );
+  const showSuggestions = isFocused && inputValue.trim() !== "" && matches.length > 0;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setInputValue("");
+    setHighlightedIndex(0);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && showSuggestions) {
+      e.preventDefault();
+      setHighlightedIndex((i) => (i + 1) % matches.length);
+    } else if (e.key === "ArrowUp" && showSuggestions) {
+      e.preventDefault();
+      setHighlightedIndex((i) => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === "Enter" || e.key === "," || (e.key === "Tab" && showSuggestions)) {
+      if (!inputValue.trim()) return;
+      e.preventDefault();
+      // Don't let Enter also submit the surrounding add row or edit
+      e.stopPropagation();
+      addTag(showSuggestions ? matches[Math.min(highlightedIndex, matches.length - 1)] : inputValue);
+    } else if (e.key === "Backspace" && !inputValue && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === "Escape" && inputValue) {
+      e.stopPropagation();
+      setInputValue("");
+    }
+  };
+
+  return (
+    <div className="tag-editor" data-testid="tag-editor">
+      {tags.map((tag) => (
+        <span key={tag} className="tag-chip" data-testid="tag-editor-chip">
+          #{tag}
+          <button
+            type="button"
+            className="tag-chip-remove"
+            data-testid="tag-editor-remove"
+            onClick={() => removeTag(tag)}
+            aria-label={`Remove tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <div className="tag-editor-input-wrapper">
+        <input
+          type="text"
+          className="tag-editor-input"
+          data-testid="tag-editor-input"
+          value={inputValue}
+          onChange={(e) => {
+            setInputValue(e.target.value);
+            setHighlightedIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (inputValue.trim()) addTag(inputValue);
+          }}
+          placeholder={tags.length === 0 ? placeholder : ""}
+          aria-label="Tags"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          autoFocus={autoFocus}
+        />
+        {showSuggestions && (
+          <ul className="tag-suggestions" role="listbox" data-testid="tag-suggestions">
+            {matches.map((tag, i) => (
+              <li
+                key={tag}
+                role="option"
+                aria-selected={i === highlightedIndex}
+                className={`tag-suggestion ${i === highlightedIndex ? "highlighted" : ""}`}
+                data-testid="tag-suggestion"
+                // mousedown fires before the input's blur, so the pick isn't lost
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+              >
+                #{tag}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TagEditor;
@@ -1,4 +1,6 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { createContext, useContext, useEffect, ReactNode } from "react";
+import { usePersistedState } from "./usePersistedState";
+import { createEnumSchema } from "./utils/storage";
 
 type Theme = "light" | "dark";
 
@@ -9,16 +11,12 @@ interface ThemeContextType {
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-const THEME_STORAGE_KEY = "webby-theme";
+const themeSchema = createEnumSchema<Theme>("webby-theme", ["light", "dark"], "light");
 
 export function ThemeProvider({ children }: { children: ReactNode }) {
-  const [theme, setTheme] = useState<Theme>(() => {
-    const saved = localStorage.getItem(THEME_STORAGE_KEY);
-    return saved === "dark" ? "dark" : "light";
-  });
+  const [theme, setTheme] = usePersistedState(themeSchema);
 
   useEffect(() => {
-    localStorage.setItem(THEME_STORAGE_KEY, theme);
     document.documentElement.setAttribute("data-theme", theme);
   }, [theme]);
 
@@ -18,6 +18,18 @@ function Toast() {
           <span className="toast-message" data-testid="toast-message">
             {toast.message}
           </span>
+          {toast.action && (
+            <button
+              className="toast-action"
+              data-testid="toast-action-btn"
+              onClick={() => {
+                toast.action?.onClick();
+                removeToast(toast.id);
+              }}
+            >
+              {toast.action.label}
+            </button>
+          )}
           <button
             className="toast-close"
             data-testid="toast-close-btn"
@@ -2,16 +2,24 @@ import { createContext, useContext, useState, useCallback, ReactNode } from "rea
 
 export type ToastType = "success" | "error" | "info";
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+  isAvailable?: () => boolean; // Re-checked by pruneActions; the button is removed once false
+}
+
 export interface Toast {
   id: number;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
   toasts: Toast[];
-  addToast: (message: string, type: ToastType) => void;
+  addToast: (message: string, type: ToastType, action?: ToastAction) => void;
   removeToast: (id: number) => void;
+  pruneActions: () => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -24,20 +32,31 @@ export function ToastProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const addToast = useCallback(
-    (message: string, type: ToastType) => {
+    (message: string, type: ToastType, action?: ToastAction) => {
       const id = Date.now();
-      const newToast: Toast = { id, message, type };
+      const newToast: Toast = { id, message, type, action };
       setToasts((prev) => [...prev, newToast]);
 
+      // Give the user a little longer to reach an action button
       setTimeout(() => {
         removeToast(id);
-      }, 3000);
+      }, action ? 5000 : 3000);
     },
     [removeToast]
   );
 
+  // Drops action buttons that no longer apply, e.g. an Undo after newer changes
+  const pruneActions = useCallback(() => {
+    setToasts((prev) => {
+      const next = prev.map((toast) =>
+        toast.action?.isAvailable?.() === false ? { ...toast, action: undefined } : toast
+      );
+      return next.some((toast, index) => toast !== prev[index]) ? next : prev;
+    });
+  }, []);
+
   return (
-    <ToastContext.Provider value={{ toasts, addToast, removeToast }}>
+    <ToastContext.Provider value={{ toasts, addToast, removeToast, pruneActions }}>
       {children}
     </ToastContext.Provider>
   );
@@ -0,0 +1,173 @@
+import { useState, useMemo } from "react";
+import { useCategories } from "./CategoryContext";
+import CategoryTag from "./CategoryTag";
+import { useToast } from "./ToastContext";
+import { useTodos } from "./TodoContext";
+import { TRASH_RETENTION_OPTIONS } from "./todoSchema";
+import { parseSearchQuery, scoreTodo } from "./utils/searchQuery";
+
+interface TodoBinProps {
+  kind: "trash" | "archive";
+}
+
+const DAY = 86_400_000;
+
+function formatAge(timestamp: number): string {
+  const days = Math.floor((Date.now() - timestamp) / DAY);
+  if (days <= 0) return "today";
+  if (days === 1) return "yesterday";
+  return `${days} days ago`;
+}
+
+function pluralizeTodos(count: number): string {
+  return `${count} todo${count === 1 ? "" : "s"}`;
+}
+
+// The Trash and Archive views: searchable lists of hidden todos that can be restored
+function TodoBin({ kind }: TodoBinProps) {
+  const {
+    trashedTodos,
+    archivedTodos,
+    restoreTodos,
+    purgeTodos,
+    deleteTodos,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    createUndoAction,
+  } = useTodos();
+  const { categories } = useCategories();
+  const { addToast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const isTrash = kind === "trash";
+  const items = isTrash ? trashedTodos : archivedTodos;
+
+  const parsedQuery = useMemo(
+    () => parseSearchQuery(searchQuery, categories),
+    [searchQuery, categories]
+  );
+  const visibleItems = useMemo(
+    () => (searchQuery.trim() ? items.filter((todo) => scoreTodo(todo, parsedQuery) > 0) : items),
+    [items, searchQuery, parsedQuery]
+  );
+
+  const restore = (ids: number[]) => {
+    restoreTodos(ids);
+    addToast(`Restored ${pluralizeTodos(ids.length)}`, "success", createUndoAction());
+  };
+
+  const purge = (ids: number[]) => {
+    purgeTodos(ids);
+    addToast(`Permanently deleted ${pluralizeTodos(ids.length)}`, "success", createUndoAction());
+  };
+
+  const trash = (ids: number[]) => {
+    deleteTodos(ids);
+    addToast(`Moved ${pluralizeTodos(ids.length)} to trash`, "success", createUndoAction());
+  };
+
+  return (
+    <div className="todo-bin" data-testid={`todo-${kind}-view`}>
+      <div className="todo-bin-toolbar">
+        <input
+          type="text"
+          className="todo-search-input"
+          data-testid="todo-bin-search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder={isTrash ? "Search trash..." : "Search archive..."}
+          aria-label={isTrash ? "Search trash" : "Search archive"}
+        />
+        {isTrash && (
+          <label className="todo-bin-retention">
+            Delete after
+            <select
+              data-testid="todo-trash-retention"
+              value={trashRetentionDays}
+              onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+            >
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 0 ? "Never" : `${days} day${days === 1 ? "" : "s"}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {visibleItems.length > 0 && (
+          <>
+            <button
+              className="todo-filter-btn"
+              data-testid="todo-bin-restore-all"
+              onClick={() => restore(visibleItems.map((t) => t.id))}
+            >
+              Restore {searchQuery.trim() ? "matching" : "all"}
+            </button>
+            <button
+              className="todo-filter-btn todo-bin-danger"
+              data-testid={isTrash ? "todo-bin-empty" : "todo-bin-trash-all"}
+              onClick={() =>
+                isTrash
+                  ? purge(visibleItems.map((t) => t.id))
+                  : trash(visibleItems.map((t) => t.id))
+              }
+            >
+              {isTrash
+                ? searchQuery.trim()
+                  ? "Delete matching forever"
+                  : "Empty trash"
+                : `Move ${searchQuery.trim() ? "matching" : "all"} to trash`}
+            </button>
+          </>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="todo-bin-empty-message" data-testid="todo-bin-empty-message">
+          {isTrash ? "The trash is empty." : "Nothing archived yet."}
+        </p>
+      ) : visibleItems.length === 0 ? (
+        <p className="todo-no-results" data-testid="todo-no-results">
+          No matching todos found
+        </p>
+      ) : (
+        <ul className="todo-bin-items" data-testid="todo-bin-items">
+          {visibleItems.map((todo) => {
+            const hiddenAt = (isTrash ? todo.deletedAt : todo.archivedAt) ?? Date.now();
+            const purgeIn =
+              isTrash && trashRetentionDays > 0
+                ? Math.max(0, Math.ceil((hiddenAt + trashRetentionDays * DAY - Date.now()) / DAY))
+                : null;
+            return (
+              <li key={todo.id} className="todo-bin-item" data-testid="todo-bin-item">
+                <span className={`todo-bin-text ${todo.completed ? "todo-completed" : ""}`}>
+                  {todo.text}
+                </span>
+                {todo.category && <CategoryTag categoryId={todo.category} />}
+                <span className="todo-bin-meta">
+                  {isTrash ? "Deleted" : "Archived"} {formatAge(hiddenAt)}
+                  {purgeIn !== null && ` · gone in ${purgeIn} day${purgeIn === 1 ? "" : "s"}`}
+                </span>
+                <button
+                  className="todo-filter-btn"
+                  data-testid="todo-bin-restore"
+                  onClick={() => restore([todo.id])}
+                >
+                  Restore
+                </button>
+                <button
+                  className="todo-filter-btn todo-bin-danger"
+                  data-testid={isTrash ? "todo-bin-purge" : "todo-bin-trash"}
+                  onClick={() => (isTrash ? purge([todo.id]) : trash([todo.id]))}
+                >
+                  {isTrash ? "Delete forever" : "Trash"}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TodoBin;
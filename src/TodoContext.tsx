@@ -0,0 +1,295 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useCallback,
+  ReactNode,
+} from "react";
+import { ToastAction, useToast } from "./ToastContext";
+import {
+  Todo,
+  Subtask,
+  TodoAction,
+  TodoSnapshot,
+  todoReducer,
+  createInitialHistory,
+  createNextOccurrence,
+  isHiddenTodo,
+} from "./todoReducer";
+import { todosSchema, todoOrderSchema, trashRetentionSchema } from "./todoSchema";
+import { usePersistedState } from "./usePersistedState";
+import { loadPersisted, savePersisted, subscribePersisted } from "./utils/storage";
+
+// How often trashed todos past the retention period are purged while the app is open
+const TRASH_EXPIRY_INTERVAL = 60 * 60 * 1000;
+
+interface TodoContextType {
+  todos: Todo[]; // Active todos; trashed and archived ones are listed separately
+  trashedTodos: Todo[]; // Most recently deleted first
+  archivedTodos: Todo[]; // Most recently archived first
+  todoOrder: number[];
+  addTodo: (todo: Todo) => void;
+  toggleTodo: (id: number, newOrder?: number[]) => Todo | undefined;
+  deleteTodo: (id: number) => void;
+  updateTodo: (id: number, changes: Partial<Omit<Todo, "id">>) => void;
+  updateTodos: (ids: number[], changes: Partial<Omit<Todo, "id">>) => Todo[];
+  deleteTodos: (ids: number[]) => void;
+  archiveTodos: (ids: number[]) => void;
+  restoreTodos: (ids: number[]) => void;
+  purgeTodos: (ids: number[]) => void;
+  trashRetentionDays: number;
+  setTrashRetentionDays: (days: number) => void;
+  reorderTodos: (order: number[]) => void;
+  moveTodo: (id: number, changes: Partial<Omit<Todo, "id">>, order: number[]) => void;
+  moveTodos: (ids: number[], changes: Partial<Omit<Todo, "id">>, order: number[]) => void;
+  replaceTodos: (snapshot: TodoSnapshot) => void;
+  addSubtask: (todoId: number, subtask: Subtask) => void;
+  toggleSubtask: (todoId: number, subtaskId: number) => void;
+  updateSubtask: (todoId: number, subtaskId: number, text: string) => void;
+  deleteSubtask: (todoId: number, subtaskId: number) => void;
+  moveSubtask: (todoId: number, fromIndex: number, toIndex: number) => void;
+  undo: () => void;
+  createUndoAction: () => ToastAction;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const TodoContext = createContext<TodoContextType | undefined>(undefined);
+
+function loadSnapshot(): TodoSnapshot {
+  return { todos: loadPersisted(todosSchema), order: loadPersisted(todoOrderSchema) };
+}
+
+export function TodoProvider({ children }: { children: ReactNode }) {
+  const [history, dispatchTimed] = useReducer(todoReducer, undefined, () =>
+    createInitialHistory(loadSnapshot())
+  );
+  const seqRef = useRef(0);
+  const dispatch = useCallback(
+    (action: TodoAction) => dispatchTimed({ ...action, at: Date.now(), seq: ++seqRef.current }),
+    []
+  );
+  const historyRef = useRef(history);
+  const { pruneActions } = useToast();
+  const { todos: storedTodos, order } = history.present;
+  const [trashRetentionDays, setTrashRetentionDays] = usePersistedState(trashRetentionSchema);
+
+  const todos = useMemo(() => storedTodos.filter((todo) => !isHiddenTodo(todo)), [storedTodos]);
+  const trashedTodos = useMemo(
+    () =>
+      storedTodos
+        .filter((todo) => todo.deletedAt !== undefined)
+        .sort((a, b) => b.deletedAt! - a.deletedAt!),
+    [storedTodos]
+  );
+  const archivedTodos = useMemo(
+    () =>
+      storedTodos
+        .filter((todo) => todo.deletedAt === undefined && todo.archivedAt !== undefined)
+        .sort((a, b) => b.archivedAt! - a.archivedAt!),
+    [storedTodos]
+  );
+
+  useEffect(() => {
+    savePersisted(todosSchema, storedTodos);
+  }, [storedTodos]);
+
+  // Purge trashed todos past the retention period, now and periodically
+  useEffect(() => {
+    if (trashRetentionDays === 0) return;
+    const expire = () =>
+      dispatch({ type: "expireTrash", before: Date.now() - trashRetentionDays * 86_400_000 });
+    expire();
+    const timer = setInterval(expire, TRASH_EXPIRY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [trashRetentionDays]);
+
+  useEffect(() => {
+    savePersisted(todoOrderSchema, order);
+  }, [order]);
+
+  // Keep the list live when another tab edits it
+  useEffect(() => {
+    const unsubscribeTodos = subscribePersisted(todosSchema, (todos) =>
+      dispatch({ type: "sync", changes: { todos } })
+    );
+    const unsubscribeOrder = subscribePersisted(todoOrderSchema, (order) =>
+      dispatch({ type: "sync", changes: { order } })
+    );
+    return () => {
+      unsubscribeTodos();
+      unsubscribeOrder();
+    };
+  }, []);
+
+  const addTodo = useCallback((todo: Todo) => dispatch({ type: "add", todo }), []);
+  // Returns the spawned next occurrence when completing a recurring todo. A new order,
+  // e.g. from a board drag, is applied in the same undo step
+  const toggleTodo = useCallback(
+    (id: number, newOrder?: number[]) => {
+      const todo = todos.find((t) => t.id === id);
+      const spawn = todo ? createNextOccurrence(todo, Date.now()) : undefined;
+      dispatch({ type: "toggle", id, spawn, order: newOrder });
+      return spawn;
+    },
+    [todos]
+  );
+  const deleteTodo = useCallback(
+    (id: number) => dispatch({ type: "delete", id }),
+    []
+  );
+  const updateTodo = useCallback(
+    (id: number, changes: Partial<Omit<Todo, "id">>) =>
+      dispatch({ type: "update", id, changes }),
+    []
+  );
+  // Applies the same changes to several todos as one undo step; returns spawned next occurrences
+  const updateTodos = useCallback(
+    (ids: number[], changes: Partial<Omit<Todo, "id">>) => {
+      const spawns: Record<number, Todo> = {};
+      if (changes.completed) {
+        const now = Date.now();
+        todos
+          .filter((todo) => ids.includes(todo.id))
+          .forEach((todo, i) => {
+            const spawn = createNextOccurrence(todo, now + i);
+            if (spawn) spawns[todo.id] = spawn;
+          });
+      }
+      dispatch({ type: "updateMany", ids, changes, spawns });
+      return Object.values(spawns);
+    },
+    [todos]
+  );
+  const deleteTodos = useCallback(
+    (ids: number[]) => dispatch({ type: "deleteMany", ids }),
+    []
+  );
+  const archiveTodos = useCallback(
+    (ids: number[]) => dispatch({ type: "archive", ids }),
+    []
+  );
+  const restoreTodos = useCallback((ids: number[]) => dispatch({ type: "restore", ids }), []);
+  const purgeTodos = useCallback((ids: number[]) => dispatch({ type: "purge", ids }), []);
+  const reorderTodos = useCallback(
+    (newOrder: number[]) => dispatch({ type: "reorder", order: newOrder }),
+    []
+  );
+  const moveTodo = useCallback(
+    (id: number, changes: Partial<Omit<Todo, "id">>, newOrder: number[]) =>
+      dispatch({ type: "move", id, changes, order: newOrder }),
+    []
+  );
+  const moveTodos = useCallback(
+    (ids: number[], changes: Partial<Omit<Todo, "id">>, newOrder: number[]) =>
+      dispatch({ type: "moveMany", ids, changes, order: newOrder }),
+    []
+  );
+  // Trashed and archived todos aren't part of what's being replaced, so they're kept
+  const replaceTodos = useCallback(
+    (snapshot: TodoSnapshot) => {
+      const ids = new Set(snapshot.todos.map((todo) => todo.id));
+      const hidden = storedTodos.filter((todo) => isHiddenTodo(todo) && !ids.has(todo.id));
+      dispatch({
+        type: "replaceAll",
+        snapshot: { todos: [...snapshot.todos, ...hidden], order: snapshot.order },
+      });
+    },
+    [storedTodos]
+  );
+  const addSubtask = useCallback(
+    (todoId: number, subtask: Subtask) => dispatch({ type: "addSubtask", todoId, subtask }),
+    []
+  );
+  const toggleSubtask = useCallback(
+    (todoId: number, subtaskId: number) =>
+      dispatch({ type: "toggleSubtask", todoId, subtaskId }),
+    []
+  );
+  const updateSubtask = useCallback(
+    (todoId: number, subtaskId: number, text: string) =>
+      dispatch({ type: "updateSubtask", todoId, subtaskId, text }),
+    []
+  );
+  const deleteSubtask = useCallback(
+    (todoId: number, subtaskId: number) =>
+      dispatch({ type: "deleteSubtask", todoId, subtaskId }),
+    []
+  );
+  const moveSubtask = useCallback(
+    (todoId: number, fromIndex: number, toIndex: number) =>
+      dispatch({ type: "moveSubtask", todoId, fromIndex, toIndex }),
+    []
+  );
+  const undo = useCallback(() => dispatch({ type: "undo" }), []);
+
+  useEffect(() => {
+    historyRef.current = history;
+    pruneActions();
+  }, [history, pruneActions]);
+
+  // An Undo button for the change just made; it goes away once anything else changes,
+  // so it can never undo something other than what its toast describes
+  const createUndoAction = useCallback((): ToastAction => {
+    const seq = seqRef.current;
+    const isAvailable = () => historyRef.current.lastChange === seq;
+    return {
+      label: "Undo",
+      onClick: () => {
+        if (isAvailable()) dispatch({ type: "undo" });
+      },
+      isAvailable,
+    };
+  }, []);
+  const redo = useCallback(() => dispatch({ type: "redo" }), []);
+
+  return (
+    <TodoContext.Provider
+      value={{
+        todos,
+        trashedTodos,
+        archivedTodos,
+        todoOrder: order,
+        addTodo,
+        toggleTodo,
+        deleteTodo,
+        updateTodo,
+        updateTodos,
+        deleteTodos,
+        archiveTodos,
+        restoreTodos,
+        purgeTodos,
+        trashRetentionDays,
+        setTrashRetentionDays,
+        reorderTodos,
+        moveTodo,
+        moveTodos,
+        replaceTodos,
+        addSubtask,
+        toggleSubtask,
+        updateSubtask,
+        deleteSubtask,
+        moveSubtask,
+        undo,
+        createUndoAction,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+      }}
+    >
+      {children}
+    </TodoContext.Provider>
+  );
+}
+
+export function useTodos() {
+  const context = useContext(TodoContext);
+  if (context === undefined) {
+    throw new Error("useTodos must be used within a TodoProvider");
+  }
+  return context;
+}
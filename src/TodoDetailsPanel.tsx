@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import { Category } from "./CategoryContext";
+import DependencyPicker from "./DependencyPicker";
+import MarkdownView from "./MarkdownView";
+import { formatActivityValue, getActivityLabel } from "./todoActivity";
+import { ActivityValue, PriorityType, Todo } from "./todoReducer";
+
+interface TodoDetailsPanelProps {
+  todo: Todo;
+  todos: Todo[]; // Candidates for blocked-by links
+  categories: Category[];
+  priorities: { value: PriorityType; label: string; emoji: string }[];
+  onChange: (changes: Partial<Omit<Todo, "id">>) => void;
+  onClose: () => void;
+}
+
+function TodoDetailsPanel({
+  todo,
+  todos,
+  categories,
+  priorities,
+  onChange,
+  onClose,
+}: TodoDetailsPanelProps) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const [text, setText] = useState(todo.text);
+  const [notes, setNotes] = useState(todo.notes ?? "");
+  const [isEditingNotes, setIsEditingNotes] = useState(!todo.notes);
+  const activity = [...(todo.activity ?? [])].reverse();
+
+  // Blockers are logged by id; show their titles instead
+  const formatEntryValue = (field: string, value: ActivityValue) =>
+    field === "blockedBy" && Array.isArray(value)
+      ? value.map((id) => todos.find((t) => t.id === id)?.text ?? "a removed todo").join(", ")
+      : formatActivityValue(value);
+
+  // Pick up changes made elsewhere, e.g. undo or another tab
+  useEffect(() => setText(todo.text), [todo.text]);
+  useEffect(() => setNotes(todo.notes ?? ""), [todo.notes]);
+
+  useEffect(() => {
+    closeButtonRef.current?.focus();
+  }, []);
+
+  const commitText = () => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      setText(todo.text);
+    } else if (trimmed !== todo.text) {
+      onChange({ text: trimmed });
+    }
+  };
+
+  const commitNotes = () => {
+    const value = notes.trim() ? notes : undefined;
+    if (value !== todo.notes) onChange({ notes: value });
+  };
+
+  // Escape closes without blurring the field being edited, so save it first
+  const close = () => {
+    commitText();
+    commitNotes();
+    onClose();
+  };
+
+  return (
+    <div
+      className="todo-details-backdrop"
+      data-testid="todo-details-backdrop"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <aside
+        className="todo-details-panel"
+        data-testid="todo-details-panel"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="todo-details-title"
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            // Handled here so the global Escape shortcut doesn't also clear the search
+            e.stopPropagation();
+            close();
+          }
+        }}
+      >
+        <div className="todo-details-header">
+          <h3 id="todo-details-title">Todo details</h3>
+          <button
+            className="keyboard-shortcuts-close"
+            data-testid="todo-details-close"
+            onClick={onClose}
+            ref={closeButtonRef}
+            aria-label="Close details"
+          >
+            ✕
+          </button>
+        </div>
+
+        <label className="todo-details-field">
+          <span>Title</span>
+          <input
+            type="text"
+            data-testid="todo-details-text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commitText}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitText();
+            }}
+          />
+        </label>
+
+        <div className="todo-details-row">
+          <label className="todo-details-field">
+            <span>Category</span>
+            <select
+              data-testid="todo-details-category"
+              value={todo.category ?? ""}
+              onChange={(e) => onChange({ category: e.target.value || undefined })}
+            >
+              <option value="">No Category</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.icon} {category.name}
+                </option>
+              ))}
+              {todo.category && !categories.some((c) => c.id === todo.category) && (
+                <option value={todo.category}>{todo.category}</option>
+              )}
+            </select>
+          </label>
+
+          <label className="todo-details-field">
+            <span>Priority</span>
+            <select
+              data-testid="todo-details-priority"
+              value={todo.priority}
+              onChange={(e) => onChange({ priority: e.target.value as PriorityType })}
+            >
+              {priorities.map((priority) => (
+                <option key={priority.value} value={priority.value}>
+                  {priority.emoji} {priority.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="todo-details-field">
+            <span>Due date</span>
+            <input
+              type="date"
+              className="todo-due-date-input"
+              data-testid="todo-details-due-date"
+              value={todo.dueDate ?? ""}
+              onChange={(e) => onChange({ dueDate: e.target.value || undefined })}
+            />
+          </label>
+        </div>
+
+        <div className="todo-details-blockers">
+          <span>Blocked by</span>
+          <DependencyPicker
+            todo={todo}
+            todos={todos}
+            onChange={(blockedBy) => onChange({ blockedBy: blockedBy.length > 0 ? blockedBy : undefined })}
+          />
+        </div>
+
+        <div className="todo-details-notes">
+          <div className="todo-details-notes-header">
+            <span>Notes</span>
+            <button
+              className="todo-filter-btn"
+              data-testid="todo-details-notes-toggle"
+              onClick={() => {
+                if (isEditingNotes) commitNotes();
+                setIsEditingNotes(!isEditingNotes);
+              }}
+            >
+              {isEditingNotes ? "Preview" : "Edit"}
+            </button>
+          </div>
+          {isEditingNotes ? (
+            <textarea
+              className="todo-details-notes-input"
+              data-testid="todo-details-notes-input"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              onBlur={commitNotes}
+              placeholder={"Links, checklists, meeting notes…\nMarkdown works: **bold**, - lists, `code`, [links](https://example.com)"}
+              rows={10}
+            />
+          ) : notes.trim() ? (
+            <MarkdownView source={notes} className="todo-details-notes-preview" />
+          ) : (
+            <p className="todo-details-notes-empty">No notes yet.</p>
+          )}
+        </div>
+
+        <dl className="todo-details-timestamps" data-testid="todo-details-timestamps">
+          {todo.createdAt !== undefined && (
+            <>
+              <dt>Created</dt>
+              <dd>{new Date(todo.createdAt).toLocaleString()}</dd>
+            </>
+          )}
+          {todo.updatedAt !== undefined && (
+            <>
+              <dt>Updated</dt>
+              <dd>{new Date(todo.updatedAt).toLocaleString()}</dd>
+            </>
+          )}
+          {todo.completedAt !== undefined && (
+            <>
+              <dt>Completed</dt>
+              <dd>{new Date(todo.completedAt).toLocaleString()}</dd>
+            </>
+          )}
+        </dl>
+
+        <div className="todo-details-activity">
+          <span>Activity</span>
+          {activity.length === 0 ? (
+            <p className="todo-details-notes-empty" data-testid="todo-activity-empty">
+              No changes yet.
+            </p>
+          ) : (
+            <ol className="todo-activity-list" data-testid="todo-activity-list">
+              {activity.map((entry, index) => (
+                <li key={index} className="todo-activity-entry" data-testid="todo-activity-entry">
+                  <time className="todo-activity-time">{new Date(entry.at).toLocaleString()}</time>
+                  <span>
+                    {getActivityLabel(entry.field)}:{" "}
+                    {formatEntryValue(entry.field, entry.from)} →{" "}
+                    {formatEntryValue(entry.field, entry.to)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
+
+export default TodoDetailsPanel;
@@ -0,0 +1,210 @@
+import { useState, useMemo, useRef } from "react";
+import { Category } from "./CategoryContext";
+import { useTodos } from "./TodoContext";
+import { useToast } from "./ToastContext";
+import {
+  TransferFormat,
+  ImportMode,
+  ImportResult,
+  exportTodos,
+  parseImport,
+  diffImport,
+} from "./utils/todoTransfer";
+
+interface TodoImportExportProps {
+  categories: Category[];
+}
+
+const FORMATS: { value: TransferFormat; label: string; extension: string; mime: string }[] = [
+  { value: "json", label: "JSON", extension: "json", mime: "application/json" },
+  { value: "csv", label: "CSV", extension: "csv", mime: "text/csv" },
+  { value: "markdown", label: "Markdown", extension: "md", mime: "text/markdown" },
+];
+
+function TodoImportExport({ categories }: TodoImportExportProps) {
+  const { todos, trashedTodos, archivedTodos, todoOrder, replaceTodos, createUndoAction } =
+    useTodos();
+  const { addToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const diff = useMemo(() => {
+    if (!result) return null;
+    const hiddenIds = [...trashedTodos, ...archivedTodos].map((t) => t.id);
+    return diffImport({ todos, order: todoOrder }, result.todos, mode, hiddenIds);
+  }, [result, todos, trashedTodos, archivedTodos, todoOrder, mode]);
+
+  const handleExport = (format: (typeof FORMATS)[number]) => {
+    const content = exportTodos({ todos, order: todoOrder }, format.value);
+    const blob = new Blob([content], { type: format.mime });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `todos-${new Date().toISOString().slice(0, 10)}.${format.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    addToast(`Exported ${todos.length} todos as ${format.label}`, "success");
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    setFileName(file.name);
+    setResult(parseImport(file.name, content, categories));
+  };
+
+  const resetImport = () => {
+    setResult(null);
+    setFileName("");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const confirmImport = () => {
+    if (!diff) return;
+    replaceTodos(diff.snapshot);
+    addToast(
+      `Imported ${diff.added.length} new, ${diff.updated.length} updated` +
+        (mode === "replace" ? `, ${diff.removed.length} removed` : ""),
+      "success",
+      createUndoAction()
+    );
+    resetImport();
+  };
+
+  return (
+    <div className="todo-transfer" data-testid="todo-transfer">
+      <button
+        className="todo-stats-toggle"
+        data-testid="todo-transfer-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        <span className="todo-stats-toggle-icon">{isOpen ? "▼" : "▶"}</span>
+        <span>Import / Export</span>
+      </button>
+
+      {isOpen && (
+        <div className="todo-transfer-panel" data-testid="todo-transfer-panel">
+          <div className="todo-transfer-row">
+            <span className="todo-transfer-label">Export:</span>
+            {FORMATS.map((format) => (
+              <button
+                key={format.value}
+                className="todo-filter-btn"
+                data-testid={`todo-export-${format.value}`}
+                onClick={() => handleExport(format)}
+                disabled={todos.length === 0}
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="todo-transfer-row">
+            <label className="todo-transfer-label" htmlFor="todo-import-input">
+              Import:
+            </label>
+            <input
+              id="todo-import-input"
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,.md,.markdown,application/json,text/csv,text/markdown"
+              data-testid="todo-import-input"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          {result && diff && (
+            <div className="todo-import-preview" data-testid="todo-import-preview">
+              <p className="todo-import-summary" data-testid="todo-import-summary">
+                {fileName} ({result.format.toUpperCase()}): {result.todos.length} valid
+                {result.errors.length > 0 && `, ${result.errors.length} problem(s)`}
+              </p>
+
+              {result.errors.length > 0 && (
+                <ul className="todo-import-errors" data-testid="todo-import-errors">
+                  {result.errors.map((error, i) => (
+                    <li key={i} data-testid="todo-import-error">
+                      {error.row > 0 ? `Row ${error.row}` : "File"}
+                      {error.field && ` · ${error.field}`}: {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="todo-transfer-row" role="radiogroup" aria-label="Import mode">
+                <label>
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    data-testid="todo-import-mode-merge"
+                    checked={mode === "merge"}
+                    onChange={() => setMode("merge")}
+                  />
+                  Merge with current list
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    data-testid="todo-import-mode-replace"
+                    checked={mode === "replace"}
+                    onChange={() => setMode("replace")}
+                  />
+                  Replace current list
+                </label>
+              </div>
+
+              <ul className="todo-import-diff" data-testid="todo-import-diff">
+                {diff.added.map((todo) => (
+                  <li key={`added-${todo.id}`} className="todo-import-diff-added" data-testid="todo-import-diff-added">
+                    + {todo.text}
+                  </li>
+                ))}
+                {diff.updated.map((todo) => (
+                  <li key={`updated-${todo.id}`} className="todo-import-diff-updated" data-testid="todo-import-diff-updated">
+                    ~ {todo.text}
+                  </li>
+                ))}
+                {diff.removed.map((todo) => (
+                  <li key={`removed-${todo.id}`} className="todo-import-diff-removed" data-testid="todo-import-diff-removed">
+                    − {todo.text}
+                  </li>
+                ))}
+                {diff.unchanged.length > 0 && (
+                  <li className="todo-import-diff-unchanged">
+                    {diff.unchanged.length} unchanged
+                  </li>
+                )}
+              </ul>
+
+              <div className="todo-transfer-row">
+                <button
+                  className="todo-filter-btn active"
+                  data-testid="todo-import-confirm"
+                  onClick={confirmImport}
+                  disabled={result.todos.length === 0}
+                >
+                  {mode === "merge" ? "Merge" : "Replace"}
+                </button>
+                <button
+                  className="todo-filter-btn"
+                  data-testid="todo-import-cancel"
+                  onClick={resetImport}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TodoImportExport;
@@ -1,26 +1,63 @@
-import { useState, useEffect, useMemo, useRef } from "react";
+import { useState, useEffect, useMemo, useRef, ReactNode } from "react";
 import { useToast } from "./ToastContext";
-import TodoStats from "./TodoStats";
-
-type CategoryType = "work" | "personal" | "shopping" | "health" | "other";
-type PriorityType = "high" | "medium" | "low";
-
-interface Todo {
-  id: number;
-  text: string;
-  completed: boolean;
-  dueDate?: string; // ISO date string
-  category?: CategoryType;
-  priority: PriorityType;
-}
-
-const CATEGORIES: { value: CategoryType; label: string }[] = [
-  { value: "work", label: "Work" },
-  { value: "personal", label: "Personal" },
-  { value: "shopping", label: "Shopping" },
-  { value: "health", label: "Health" },
-  { value: "other", label: "Other" },
-];
+import { useTodos } from "./TodoContext";
+import { Todo, CategoryType, PriorityType } from "./todoReducer";
+import BulkActionBar from "./BulkActionBar";
+import CalendarView, { CalendarMode } from "./CalendarView";
+import { useCategories } from "./CategoryContext";
+import CategoryManager from "./CategoryManager";
+import CategoryTag from "./CategoryTag";
+import FocusBar from "./FocusBar";
+import { useFocus } from "./FocusContext";
+import { ALL_LISTS, useLists } from "./ListContext";
+import { useRouter } from "./RouterContext";
+import KanbanBoard, {
+  BoardColumn,
+  BoardGrouping,
+  getBoardColumnChanges,
+  getBoardColumnKey,
+} from "./KanbanBoard";
+import RecurrenceEditor from "./RecurrenceEditor";
+import ReminderEditor from "./ReminderEditor";
+import SavedViews from "./SavedViews";
+import TodoBin from "./TodoBin";
+import TodoDetailsPanel from "./TodoDetailsPanel";
+import TodoImportExport from "./TodoImportExport";
+import SubtaskList from "./SubtaskList";
+import TagEditor from "./TagEditor";
+import {
+  FilterType,
+  DueDateFilterType,
+  PriorityFilterType,
+  SortType,
+  TagMatchType,
+  TodoViewMode,
+  TodoViewSettings,
+  buildTodoIndex,
+  filterTodoIndex,
+  describeViewSettings,
+  sortByManualOrder,
+} from "./todoFilters";
+import { useDebouncedValue } from "./useDebouncedValue";
+import { SavedView, useSavedViews, isSameViewSettings } from "./useSavedViews";
+import { DropPosition, moveInOrder, useTodoDrag } from "./useTodoDrag";
+import { useVirtualList } from "./useVirtualList";
+import { getStartOfDay, isToday, toLocalDateString } from "./utils/date";
+import { getBlockedIds, getOpenBlockers, sortByDependencies } from "./utils/dependencies";
+import { formatTrackedTime } from "./utils/focus";
+import { RecurrenceRule, describeRecurrence } from "./utils/recurrence";
+import { parseQuickAdd } from "./utils/quickAdd";
+import { describeReminder, getDueTimestamp } from "./utils/reminders";
+import { getTodoPath } from "./utils/routes";
+import { getHighlightRanges, parseSearchQuery } from "./utils/searchQuery";
+import {
+  StorageSchema,
+  createEnumSchema,
+  loadPersisted,
+  savePersisted,
+  validateRecords,
+} from "./utils/storage";
+import { collectTags } from "./utils/tags";
 
 const PRIORITIES: { value: PriorityType; label: string; emoji: string }[] = [
   { value: "high", label: "High", emoji: "🔴" },
@@ -28,25 +65,6 @@ const PRIORITIES: { value: PriorityType; label: string; emoji: string }[] = [
   { value: "low", label: "Low", emoji: "🟢" },
 ];
 
-type FilterType = "all" | "active" | "completed";
-type DueDateFilterType = "all" | "today" | "overdue" | "upcoming";
-type PriorityFilterType = "all" | "high" | "medium-plus" | "high-only";
-type SortType = "manual" | "priority" | "dueDate" | "created";
-
-// Helper function to get start of day in local timezone
-function getStartOfDay(date: Date): Date {
-  const d = new Date(date);
-  d.setHours(0, 0, 0, 0);
-  return d;
-}
-
-// Helper function to check if a date is today
-function isToday(date: Date): boolean {
-  const today = getStartOfDay(new Date());
-  const d = getStartOfDay(date);
-  return d.getTime() === today.getTime();
-}
-
 // Helper function to check if a date is tomorrow
 function isTomorrow(date: Date): boolean {
   const tomorrow = getStartOfDay(new Date());
@@ -108,94 +126,204 @@ function formatRelativeDate(dateString: string): string {
   return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
 }
 
-const STORAGE_KEY = "todos";
-const ORDER_STORAGE_KEY = "todo-order";
-const FILTER_STORAGE_KEY = "todo-filter";
-const DUE_DATE_FILTER_STORAGE_KEY = "todo-due-date-filter";
-const CATEGORY_FILTER_STORAGE_KEY = "todo-category-filter";
-const PRIORITY_FILTER_STORAGE_KEY = "todo-priority-filter";
-const SORT_STORAGE_KEY = "todo-sort";
+const filterSchema = createEnumSchema<FilterType>(
+  "todo-filter",
+  ["all", "active", "completed"],
+  "all"
+);
+const dueDateFilterSchema = createEnumSchema<DueDateFilterType>(
+  "todo-due-date-filter",
+  ["all", "today", "overdue", "upcoming"],
+  "all"
+);
+// Categories are user-defined, so any id is accepted; stale ids are reset once the registry loads
+const categoryFilterSchema: StorageSchema<CategoryType | "all"> = {
+  key: "todo-category-filter",
+  migrations: [(data) => data],
+  validate: (data) => (typeof data === "string" && data ? { value: data, invalid: 0 } : null),
+  fallback: () => "all",
+};
+const priorityFilterSchema = createEnumSchema<PriorityFilterType>(
+  "todo-priority-filter",
+  ["all", "high", "medium-plus", "high-only"],
+  "all"
+);
+const tagFilterSchema: StorageSchema<string[]> = {
+  key: "todo-tag-filter",
+  migrations: [(data) => data],
+  validate: (data) => validateRecords(data, (tag) => (typeof tag === "string" ? tag : null)),
+  fallback: () => [],
+};
+const tagMatchSchema = createEnumSchema<TagMatchType>("todo-tag-match", ["any", "all"], "any");
+const sortSchema = createEnumSchema<SortType>(
+  "todo-sort",
+  ["manual", "priority", "dueDate", "created", "dependency"],
+  "manual"
+);
+const viewModeSchema = createEnumSchema<TodoViewMode>(
+  "todo-view-mode",
+  ["list", "calendar", "board", "archive", "trash"],
+  "list"
+);
+const calendarModeSchema = createEnumSchema<CalendarMode>(
+  "todo-calendar-mode",
+  ["month", "week"],
+  "month"
+);
+const boardGroupingSchema = createEnumSchema<BoardGrouping>(
+  "todo-board-grouping",
+  ["status", "category", "priority", "due"],
+  "status"
+);
+
+// Long lists debounce the search box and only render the rows near the viewport
+const SEARCH_DEBOUNCE_MIN_TODOS = 1000;
+const SEARCH_DEBOUNCE_DELAY = 150;
+const VIRTUALIZE_MIN_ROWS = 200;
+const ESTIMATED_ROW_HEIGHT = 64;
+const VIRTUAL_OVERSCAN = 600;
 
 function TodoList() {
-  const [todos, setTodos] = useState<Todo[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (!saved) return [];
-
-    const parsedTodos = JSON.parse(saved);
-    // Migration: add default priority to existing todos
-    return parsedTodos.map((todo: any) => ({
-      ...todo,
-      priority: todo.priority || "low"
-    }));
-  });
+  const {
+    todos,
+    todoOrder,
+    addTodo: storeAddTodo,
+    toggleTodo,
+    deleteTodo: storeDeleteTodo,
+    updateTodo,
+    updateTodos,
+    deleteTodos,
+    reorderTodos,
+    moveTodo: storeMoveTodo,
+    archiveTodos,
+    trashedTodos,
+    archivedTodos,
+    createUndoAction,
+  } = useTodos();
   const [inputValue, setInputValue] = useState("");
   const [dueDateValue, setDueDateValue] = useState("");
+  const [dueTimeValue, setDueTimeValue] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [filter, setFilter] = useState<FilterType>(() => {
-    const saved = localStorage.getItem(FILTER_STORAGE_KEY);
-    return (saved as FilterType) || "all";
-  });
-  const [dueDateFilter, setDueDateFilter] = useState<DueDateFilterType>(() => {
-    const saved = localStorage.getItem(DUE_DATE_FILTER_STORAGE_KEY);
-    return (saved as DueDateFilterType) || "all";
-  });
+  // Large lists only re-filter once typing pauses
+  const debouncedSearchQuery = useDebouncedValue(
+    searchQuery,
+    todos.length >= SEARCH_DEBOUNCE_MIN_TODOS ? SEARCH_DEBOUNCE_DELAY : 0
+  );
+  const [filter, setFilter] = useState<FilterType>(() => loadPersisted(filterSchema));
+  const [dueDateFilter, setDueDateFilter] = useState<DueDateFilterType>(() =>
+    loadPersisted(dueDateFilterSchema)
+  );
   const [categoryValue, setCategoryValue] = useState<CategoryType | "">("");
-  const [categoryFilter, setCategoryFilter] = useState<CategoryType | "all">(() => {
-    const saved = localStorage.getItem(CATEGORY_FILTER_STORAGE_KEY);
-    return (saved as CategoryType | "all") || "all";
-  });
-  const [priorityFilter, setPriorityFilter] = useState<PriorityFilterType>(() => {
-    const saved = localStorage.getItem(PRIORITY_FILTER_STORAGE_KEY);
-    return (saved as PriorityFilterType) || "all";
-  });
-  const [sortBy, setSortBy] = useState<SortType>(() => {
-    const saved = localStorage.getItem(SORT_STORAGE_KEY);
-    return (saved as SortType) || "manual";
-  });
+  const [categoryFilter, setCategoryFilter] = useState<CategoryType | "all">(() =>
+    loadPersisted(categoryFilterSchema)
+  );
+  const [priorityFilter, setPriorityFilter] = useState<PriorityFilterType>(() =>
+    loadPersisted(priorityFilterSchema)
+  );
+  const [tagFilter, setTagFilter] = useState<string[]>(() => loadPersisted(tagFilterSchema));
+  const [tagMatch, setTagMatch] = useState<TagMatchType>(() => loadPersisted(tagMatchSchema));
+  const [sortBy, setSortBy] = useState<SortType>(() => loadPersisted(sortSchema));
+  const [viewMode, setViewMode] = useState<TodoViewMode>(() => loadPersisted(viewModeSchema));
+  const [calendarMode, setCalendarMode] = useState<CalendarMode>(() =>
+    loadPersisted(calendarModeSchema)
+  );
+  const [boardGrouping, setBoardGrouping] = useState<BoardGrouping>(() =>
+    loadPersisted(boardGroupingSchema)
+  );
+  const [tagsValue, setTagsValue] = useState<string[]>([]);
   const [priorityValue, setPriorityValue] = useState<PriorityType>("low");
-  const [todoOrder, setTodoOrder] = useState<number[]>(() => {
-    const saved = localStorage.getItem(ORDER_STORAGE_KEY);
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [draggedId, setDraggedId] = useState<number | null>(null);
-  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
-  const [dropPosition, setDropPosition] = useState<"before" | "after" | null>(null);
-  const draggedRef = useRef<number | null>(null);
+  // Tells a priority the user picked apart from the select's default
+  const [isPriorityPicked, setIsPriorityPicked] = useState(false);
+  const [recurrenceValue, setRecurrenceValue] = useState<RecurrenceRule | undefined>();
+  const [isRecurrenceEditorOpen, setIsRecurrenceEditorOpen] = useState(false);
+  const [recurrenceEditingId, setRecurrenceEditingId] = useState<number | null>(null);
+  const [remindersValue, setRemindersValue] = useState<number[] | undefined>();
+  const [isReminderEditorOpen, setIsReminderEditorOpen] = useState(false);
+  const [reminderEditingId, setReminderEditingId] = useState<number | null>(null);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editValue, setEditValue] = useState("");
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
+  const [focusedRowId, setFocusedRowId] = useState<number | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const selectionAnchorRef = useRef<number | null>(null);
   const { addToast } = useToast();
+  const { timer: focusTimer, trackedTime, startFocus } = useFocus();
+  const { categories, getCategory } = useCategories();
+  const { lists, activeListId, setActiveListId, getList, getTodoListId, moveTodosToList } =
+    useLists();
+  const { route, navigate } = useRouter();
+  // The open details panel lives in the URL (/todos/:id) so it can be linked to
+  const detailsId = route.todoId;
+  const shownDetailsIdRef = useRef<number | null>(null);
+  const categoryIds = useMemo(() => categories.map((c) => c.id), [categories]);
+  const { views, saveView, renameView, deleteView, togglePin, moveView } = useSavedViews();
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(todos));
-  }, [todos]);
-
-  useEffect(() => {
-    localStorage.setItem(FILTER_STORAGE_KEY, filter);
+    savePersisted(filterSchema, filter);
   }, [filter]);
 
   useEffect(() => {
-    localStorage.setItem(DUE_DATE_FILTER_STORAGE_KEY, dueDateFilter);
+    savePersisted(dueDateFilterSchema, dueDateFilter);
   }, [dueDateFilter]);
 
   useEffect(() => {
-    localStorage.setItem(CATEGORY_FILTER_STORAGE_KEY, categoryFilter);
+    savePersisted(viewModeSchema, viewMode);
+  }, [viewMode]);
+
+  useEffect(() => {
+    savePersisted(calendarModeSchema, calendarMode);
+  }, [calendarMode]);
+
+  useEffect(() => {
+    savePersisted(boardGroupingSchema, boardGrouping);
+  }, [boardGrouping]);
+
+  useEffect(() => {
+    savePersisted(categoryFilterSchema, categoryFilter);
   }, [categoryFilter]);
 
+  // Fall back to all categories when the filtered one is deleted or merged away
   useEffect(() => {
-    localStorage.setItem(PRIORITY_FILTER_STORAGE_KEY, priorityFilter);
+    if (categoryFilter !== "all" && !categoryIds.includes(categoryFilter)) {
+      setCategoryFilter("all");
+    }
+  }, [categoryFilter, categoryIds]);
+
+  useEffect(() => {
+    savePersisted(priorityFilterSchema, priorityFilter);
   }, [priorityFilter]);
 
   useEffect(() => {
-    localStorage.setItem(SORT_STORAGE_KEY, sortBy);
-  }, [sortBy]);
+    savePersisted(tagFilterSchema, tagFilter);
+  }, [tagFilter]);
 
   useEffect(() => {
-    localStorage.setItem(ORDER_STORAGE_KEY, JSON.stringify(todoOrder));
-  }, [todoOrder]);
+    savePersisted(tagMatchSchema, tagMatch);
+  }, [tagMatch]);
+
+  useEffect(() => {
+    savePersisted(sortSchema, sortBy);
+  }, [sortBy]);
+
+  const allTags = useMemo(() => collectTags(todos), [todos]);
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
+
+  const listTodos = useMemo(
+    () =>
+      activeListId === ALL_LISTS
+        ? todos
+        : todos.filter((todo) => getTodoListId(todo) === activeListId),
+    [todos, activeListId, getTodoListId]
+  );
 
   // Sort todos by the selected sorting method
   const orderedTodos = useMemo(() => {
-    const sortedTodos = [...todos];
+    const sortedTodos = [...listTodos];
 
     if (sortBy === "priority") {
       sortedTodos.sort((a, b) => {
@@ -219,6 +347,12 @@ function TodoList() {
           if (aDate !== bDate) {
             return aDate - bDate;
           }
+          // Same day: timed items in time order, before untimed ones
+          if (a.dueTime !== b.dueTime) {
+            if (!a.dueTime) return 1;
+            if (!b.dueTime) return -1;
+            return a.dueTime.localeCompare(b.dueTime);
+          }
         }
         // Then by creation date (newest first)
         return b.id - a.id;
@@ -226,177 +360,221 @@ function TodoList() {
     } else if (sortBy === "created") {
       sortedTodos.sort((a, b) => b.id - a.id); // Newest first
     } else if (sortBy === "manual") {
-      // Create a map of id -> order index
-      const orderMap = new Map<number, number>();
-      todoOrder.forEach((id, index) => orderMap.set(id, index));
-
-      // Sort todos: items in order first (by their position), then items not in order (newest first, at top)
-      sortedTodos.sort((a, b) => {
-        const aInOrder = orderMap.has(a.id);
-        const bInOrder = orderMap.has(b.id);
-
-        if (!aInOrder && !bInOrder) {
-          // Both are new - newer items (higher id) come first (at top)
-          return b.id - a.id;
-        }
-        if (!aInOrder) return -1; // a is new, goes to top
-        if (!bInOrder) return 1;  // b is new, goes to top
-
-        // Both have order - sort by order
-        return orderMap.get(a.id)! - orderMap.get(b.id)!;
-      });
+      return sortByManualOrder(sortedTodos, todoOrder);
+    } else if (sortBy === "dependency") {
+      // Prerequisites first; otherwise the manual order is kept
+      return sortByDependencies(sortByManualOrder(sortedTodos, todoOrder));
     }
 
     return sortedTodos;
-  }, [todos, todoOrder, sortBy]);
-
-  const filteredTodos = useMemo(() => {
-    return orderedTodos.filter((todo) => {
-      const matchesSearch = todo.text.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesFilter =
-        filter === "all" ||
-        (filter === "active" && !todo.completed) ||
-        (filter === "completed" && todo.completed);
-
-      // Due date filter logic
-      let matchesDueDateFilter = true;
-      if (dueDateFilter !== "all") {
-        if (!todo.dueDate) {
-          matchesDueDateFilter = false;
-        } else {
-          const dueDate = new Date(todo.dueDate);
-          const today = getStartOfDay(new Date());
-          const dueDateStart = getStartOfDay(dueDate);
-
-          if (dueDateFilter === "today") {
-            matchesDueDateFilter = isToday(dueDate);
-          } else if (dueDateFilter === "overdue") {
-            matchesDueDateFilter = dueDateStart.getTime() < today.getTime();
-          } else if (dueDateFilter === "upcoming") {
-            matchesDueDateFilter = dueDateStart.getTime() > today.getTime();
-          }
-        }
-      }
+  }, [listTodos, todoOrder, sortBy]);
 
-      // Category filter logic
-      const matchesCategoryFilter =
-        categoryFilter === "all" || todo.category === categoryFilter;
-
-      // Priority filter logic
-      let matchesPriorityFilter = true;
-      if (priorityFilter !== "all") {
-        if (priorityFilter === "high-only") {
-          matchesPriorityFilter = todo.priority === "high";
-        } else if (priorityFilter === "medium-plus") {
-          matchesPriorityFilter = todo.priority === "high" || todo.priority === "medium";
-        } else if (priorityFilter === "high") {
-          matchesPriorityFilter = todo.priority === "high";
-        }
-      }
+  const parsedQuery = useMemo(
+    () => parseSearchQuery(debouncedSearchQuery, categories),
+    [debouncedSearchQuery, categories]
+  );
 
-      return matchesSearch && matchesFilter && matchesDueDateFilter && matchesCategoryFilter && matchesPriorityFilter;
-    });
-  }, [orderedTodos, searchQuery, filter, dueDateFilter, categoryFilter, priorityFilter]);
+  const todosById = useMemo(() => new Map(todos.map((todo) => [todo.id, todo])), [todos]);
+  const blockedIds = useMemo(() => getBlockedIds(todos), [todos]);
+  const todoIndex = useMemo(
+    () => buildTodoIndex(orderedTodos, blockedIds),
+    [orderedTodos, blockedIds]
+  );
 
-  const counts = useMemo(() => {
-    const searchFiltered = todos.filter((todo) =>
-      todo.text.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-    return {
-      all: searchFiltered.length,
-      active: searchFiltered.filter((t) => !t.completed).length,
-      completed: searchFiltered.filter((t) => t.completed).length,
-    };
-  }, [todos, searchQuery]);
-
-  const priorityCounts = useMemo(() => {
-    const searchFiltered = todos.filter((todo) => {
-      const matchesSearch = todo.text.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesFilter =
-        filter === "all" ||
-        (filter === "active" && !todo.completed) ||
-        (filter === "completed" && todo.completed);
-      const matchesCategoryFilter =
-        categoryFilter === "all" || todo.category === categoryFilter;
-      return matchesSearch && matchesFilter && matchesCategoryFilter;
+  // One pass yields the visible todos and every filter count
+  const { todos: filteredTodos, counts: listCounts } = useMemo(
+    () =>
+      filterTodoIndex(todoIndex, parsedQuery, {
+        filter,
+        dueDateFilter,
+        categoryFilter,
+        priorityFilter,
+        tagFilter,
+        tagMatch,
+      }),
+    [
+      todoIndex,
+      parsedQuery,
+      filter,
+      dueDateFilter,
+      categoryFilter,
+      priorityFilter,
+      tagFilter,
+      tagMatch,
+    ]
+  );
+  const { status: counts, priority: priorityCounts, dueDate: dueDateCounts } = listCounts;
+
+  const currentViewSettings: TodoViewSettings = {
+    filter,
+    dueDateFilter,
+    categoryFilter,
+    priorityFilter,
+    tagFilter,
+    tagMatch,
+    sortBy,
+    searchQuery,
+  };
+  const activeViewId =
+    views.find((view) => isSameViewSettings(view.settings, currentViewSettings))?.id ?? null;
+
+  // Live counts for each saved view, computed the same way as the filter counts
+  const viewCounts = useMemo(() => {
+    const result = new Map<number, number>();
+    views.forEach((view) => {
+      const query = parseSearchQuery(view.settings.searchQuery, categories);
+      result.set(view.id, filterTodoIndex(todoIndex, query, view.settings).todos.length);
     });
+    return result;
+  }, [views, todoIndex, categories]);
+
+  const applyView = (view: SavedView) => {
+    setFilter(view.settings.filter);
+    setDueDateFilter(view.settings.dueDateFilter);
+    setCategoryFilter(view.settings.categoryFilter);
+    setPriorityFilter(view.settings.priorityFilter);
+    setTagFilter(view.settings.tagFilter);
+    setTagMatch(view.settings.tagMatch);
+    setSortBy(view.settings.sortBy);
+    setSearchQuery(view.settings.searchQuery);
+  };
 
-    return {
-      all: searchFiltered.length,
-      high: searchFiltered.filter((t) => t.priority === "high").length,
-      medium: searchFiltered.filter((t) => t.priority === "medium").length,
-      low: searchFiltered.filter((t) => t.priority === "low").length,
-    };
-  }, [todos, searchQuery, filter, categoryFilter]);
+  const handleSaveView = (name: string) => {
+    saveView(name, currentViewSettings);
+    addToast(`Saved view "${name}"`, "success");
+  };
 
-  const dueDateCounts = useMemo(() => {
-    const searchFiltered = todos.filter((todo) =>
-      todo.text.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-    const today = getStartOfDay(new Date());
-
-    return {
-      all: searchFiltered.length,
-      today: searchFiltered.filter((t) => t.dueDate && isToday(new Date(t.dueDate))).length,
-      overdue: searchFiltered.filter((t) => t.dueDate && isOverdue(t.dueDate)).length,
-      upcoming: searchFiltered.filter((t) => {
-        if (!t.dueDate) return false;
-        const dueDateStart = getStartOfDay(new Date(t.dueDate));
-        return dueDateStart.getTime() > today.getTime();
-      }).length,
-    };
-  }, [todos, searchQuery]);
+  // Live quick-add parsing, e.g. "Pay rent friday #personal !high"
+  const quickAdd = useMemo(
+    () => parseQuickAdd(inputValue, categories),
+    [inputValue, categories]
+  );
+  const effectiveDueDate = dueDateValue || quickAdd.dueDate || "";
+  // Closes by itself if the todo is deleted, e.g. by undo
+  const detailsTodo = todos.find((t) => t.id === detailsId);
+
+  useEffect(() => {
+    if (detailsId === undefined) return;
+    if (detailsTodo) {
+      shownDetailsIdRef.current = detailsTodo.id;
+      return;
+    }
+    // Only a link to a todo that was never shown is an error; one deleted while open just closes
+    if (shownDetailsIdRef.current !== detailsId) {
+      shownDetailsIdRef.current = detailsId;
+      addToast("That todo doesn't exist or was deleted", "error");
+    }
+    navigate("/", { replace: true });
+  }, [detailsId, detailsTodo, navigate, addToast]);
+
+  // Deep links can point into another list; show that list so the todo is in view. Re-runs
+  // when the todo loads or moves to another list, but not when the user picks a list
+  const detailsListId = detailsTodo && getTodoListId(detailsTodo);
+  useEffect(() => {
+    if (!detailsListId || activeListId === ALL_LISTS || activeListId === detailsListId) return;
+    setActiveListId(detailsListId);
+  }, [detailsId, detailsListId, setActiveListId]);
+  // A time or reminder without a date means today
+  const newTodoDueAt = getDueTimestamp({
+    id: 0,
+    text: "",
+    completed: false,
+    dueDate: effectiveDueDate || toLocalDateString(new Date()),
+    dueTime: dueTimeValue || undefined,
+  });
 
   const highlightMatch = (text: string) => {
-    if (!searchQuery.trim()) return text;
-    const regex = new RegExp(`(${searchQuery.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "gi");
-    const parts = text.split(regex);
-    return parts.map((part, i) =>
-      regex.test(part) ? (
+    const ranges = getHighlightRanges(
+      text,
+      parsedQuery.highlightTerms,
+      !parsedQuery.hasOperators
+    );
+    if (ranges.length === 0) return text;
+    const parts: ReactNode[] = [];
+    let end = 0;
+    ranges.forEach(([start, rangeEnd], i) => {
+      if (start > end) parts.push(text.slice(end, start));
+      parts.push(
         <mark key={i} data-testid="todo-highlight">
-          {part}
+          {text.slice(start, rangeEnd)}
         </mark>
-      ) : (
-        part
-      )
-    );
+      );
+      end = rangeEnd;
+    });
+    if (end < text.length) parts.push(text.slice(end));
+    return parts;
   };
 
   const addTodo = () => {
-    const trimmed = inputValue.trim();
+    const trimmed = quickAdd.text;
     if (!trimmed) return;
 
+    // Explicitly picked fields win over ones parsed from the text
     const newTodo: Todo = {
       id: Date.now(),
       text: trimmed,
       completed: false,
-      dueDate: dueDateValue || undefined,
-      category: categoryValue || undefined,
-      priority: priorityValue,
+      // A recurring series, due time or reminder needs an anchor date, so default it to today
+      dueDate:
+        effectiveDueDate ||
+        (recurrenceValue || dueTimeValue || remindersValue
+          ? toLocalDateString(new Date())
+          : undefined),
+      dueTime: dueTimeValue || undefined,
+      reminders: remindersValue,
+      category: categoryValue || quickAdd.category,
+      listId: activeListId === ALL_LISTS ? undefined : activeListId,
+      priority: isPriorityPicked ? priorityValue : (quickAdd.priority ?? priorityValue),
+      recurrence: recurrenceValue,
+      tags: tagsValue.length > 0 ? tagsValue : undefined,
     };
-    setTodos([...todos, newTodo]);
+    storeAddTodo(newTodo);
+    setTagsValue([]);
     setInputValue("");
     setDueDateValue("");
+    setDueTimeValue("");
     setCategoryValue("");
     setPriorityValue("low");
-    addToast("Todo item added successfully!", "success");
+    setIsPriorityPicked(false);
+    setRecurrenceValue(undefined);
+    setIsRecurrenceEditorOpen(false);
+    setRemindersValue(undefined);
+    setIsReminderEditorOpen(false);
+    addToast("Todo item added successfully!", "success", createUndoAction());
   };
 
-  const toggleTodo = (id: number) => {
-    setTodos(
-      todos.map((todo) =>
-        todo.id === id ? { ...todo, completed: !todo.completed } : todo
-      )
-    );
+  const handleToggle = (id: number) => {
+    const nextOccurrence = toggleTodo(id);
+    if (nextOccurrence?.dueDate) {
+      addToast(
+        `Next occurrence scheduled for ${formatRelativeDate(nextOccurrence.dueDate)}`,
+        "info",
+        createUndoAction()
+      );
+    }
   };
 
   const deleteTodo = (id: number) => {
-    setTodos(todos.filter((todo) => todo.id !== id));
+    storeDeleteTodo(id);
+    addToast("Moved to trash", "success", createUndoAction());
+  };
+
+  const archiveTodo = (id: number) => {
+    archiveTodos([id]);
+    addToast("Todo archived", "success", createUndoAction());
+  };
+
+  // Only the list being viewed; other lists keep their completed todos
+  const archiveCompleted = () => {
+    const ids = listTodos.filter((t) => t.completed).map((t) => t.id);
+    archiveTodos(ids);
+    addToast(`Archived ${pluralizeTodos(ids.length)}`, "success", createUndoAction());
   };
 
   const startEdit = (id: number, currentText: string) => {
     setEditingId(id);
     setEditValue(currentText);
+    setEditTags(todos.find((t) => t.id === id)?.tags ?? []);
   };
 
   const saveEdit = (id: number) => {
@@ -408,14 +586,10 @@ function TodoList() {
       return;
     }
 
-    setTodos(
-      todos.map((todo) =>
-        todo.id === id ? { ...todo, text: trimmedValue } : todo
-      )
-    );
+    updateTodo(id, { text: trimmedValue, tags: editTags.length > 0 ? editTags : undefined });
     setEditingId(null);
     setEditValue("");
-    addToast("Todo updated successfully!", "success");
+    addToast("Todo updated successfully!", "success", createUndoAction());
   };
 
   const cancelEdit = () => {
@@ -437,97 +611,225 @@ function TodoList() {
     }
   };
 
-  const handleEditBlur = (id: number) => {
+  // Text and tags are edited together; save once focus leaves both
+  const handleEditBlur = (e: React.FocusEvent, id: number) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
     saveEdit(id);
   };
 
+  const toggleSubtasksExpanded = (id: number) => {
+    setExpandedIds((prev) =>
+      prev.includes(id) ? prev.filter((expandedId) => expandedId !== id) : [...prev, id]
+    );
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       addTodo();
     }
   };
 
-  // Drag and drop handlers
-  const handleDragStart = (e: React.DragEvent, id: number) => {
-    setDraggedId(id);
-    draggedRef.current = id;
-    e.dataTransfer.effectAllowed = "move";
-    e.dataTransfer.setData("text/plain", id.toString());
-    // Add slight delay for visual feedback to work properly
-    requestAnimationFrame(() => {
-      const el = e.target as HTMLElement;
-      el.classList.add("dragging");
-    });
+  // Only visible todos are acted on, so filters never hide what a bulk action touches
+  const selectedVisibleIds = useMemo(() => {
+    const selected = new Set(selectedIds);
+    return filteredTodos.filter((todo) => selected.has(todo.id)).map((todo) => todo.id);
+  }, [filteredTodos, selectedIds]);
+
+  const pluralizeTodos = (count: number) => `${count} todo${count === 1 ? "" : "s"}`;
+
+  // Shift-click selects everything between the last clicked row and this one
+  const handleSelect = (id: number, extendRange: boolean) => {
+    const ids = filteredTodos.map((t) => t.id);
+    const anchorIndex =
+      selectionAnchorRef.current === null ? -1 : ids.indexOf(selectionAnchorRef.current);
+    if (extendRange && anchorIndex !== -1) {
+      const index = ids.indexOf(id);
+      const range = ids.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      setSelectedIds((prev) => [...new Set([...prev, ...range])]);
+    } else {
+      setSelectedIds((prev) =>
+        prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]
+      );
+    }
+    selectionAnchorRef.current = id;
   };
 
-  const handleDragEnd = () => {
-    setDraggedId(null);
-    setDropTargetId(null);
-    setDropPosition(null);
-    draggedRef.current = null;
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedIds(selected ? filteredTodos.map((t) => t.id) : []);
   };
 
-  const handleDragOver = (e: React.DragEvent, id: number) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = "move";
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    selectionAnchorRef.current = null;
+  };
 
-    if (draggedRef.current === null || draggedRef.current === id) return;
+  const bulkSetCompleted = (completed: boolean) => {
+    const ids = selectedVisibleIds.filter(
+      (id) => todos.find((t) => t.id === id)?.completed !== completed
+    );
+    if (ids.length === 0) {
+      addToast(`Selected todos are already ${completed ? "completed" : "active"}`, "info");
+      return;
+    }
+    const spawned = updateTodos(ids, { completed });
+    addToast(
+      `${completed ? "Completed" : "Reopened"} ${pluralizeTodos(ids.length)}` +
+        (spawned.length > 0 ? `, scheduled ${spawned.length} next occurrence(s)` : ""),
+      "success",
+      createUndoAction()
+    );
+  };
 
-    // Determine drop position based on mouse position
-    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
-    const midY = rect.top + rect.height / 2;
-    const position = e.clientY < midY ? "before" : "after";
+  const bulkDelete = () => {
+    const ids = selectedVisibleIds;
+    deleteTodos(ids);
+    setSelectedIds([]);
+    addToast(`Moved ${pluralizeTodos(ids.length)} to trash`, "success", createUndoAction());
+  };
 
-    setDropTargetId(id);
-    setDropPosition(position);
+  const bulkSetCategory = (category: CategoryType | undefined) => {
+    updateTodos(selectedVisibleIds, { category });
+    const label = getCategory(category)?.name;
+    addToast(
+      label
+        ? `Set category to ${label} on ${pluralizeTodos(selectedVisibleIds.length)}`
+        : `Removed category from ${pluralizeTodos(selectedVisibleIds.length)}`,
+      "success",
+      createUndoAction()
+    );
   };
 
-  const handleDragLeave = (e: React.DragEvent) => {
-    // Only clear if leaving the actual target, not children
-    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
-      setDropTargetId(null);
-      setDropPosition(null);
-    }
+  const bulkMoveToList = (listId: string) => {
+    moveTodosToList(selectedVisibleIds, listId);
+    addToast(
+      `Moved ${pluralizeTodos(selectedVisibleIds.length)} to ${getList(listId)?.name}`,
+      "success",
+      createUndoAction()
+    );
   };
 
-  const handleDrop = (e: React.DragEvent, targetId: number) => {
-    e.preventDefault();
+  const handleMoveToList = (todo: Todo, listId: string) => {
+    moveTodosToList([todo.id], listId);
+    addToast(`Moved "${todo.text}" to ${getList(listId)?.name}`, "info", createUndoAction());
+  };
 
-    const draggedIdFromData = parseInt(e.dataTransfer.getData("text/plain"), 10);
-    if (isNaN(draggedIdFromData) || draggedIdFromData === targetId) {
-      handleDragEnd();
-      return;
-    }
+  const bulkSetPriority = (priority: PriorityType) => {
+    updateTodos(selectedVisibleIds, { priority });
+    const label = PRIORITIES.find((p) => p.value === priority)?.label;
+    addToast(
+      `Set priority to ${label} on ${pluralizeTodos(selectedVisibleIds.length)}`,
+      "success",
+      createUndoAction()
+    );
+  };
 
-    // Get current order or initialize with current todo ids
-    const currentOrder = todoOrder.length > 0
-      ? [...todoOrder]
-      : orderedTodos.map(t => t.id);
+  const bulkSetDueDate = (dueDate: string | undefined) => {
+    updateTodos(selectedVisibleIds, { dueDate });
+    addToast(
+      dueDate
+        ? `Set due date to ${formatRelativeDate(dueDate)} on ${pluralizeTodos(selectedVisibleIds.length)}`
+        : `Cleared due date on ${pluralizeTodos(selectedVisibleIds.length)}`,
+      "success",
+      createUndoAction()
+    );
+  };
 
-    // Ensure dragged item is in the order
-    if (!currentOrder.includes(draggedIdFromData)) {
-      currentOrder.unshift(draggedIdFromData);
-    }
-    // Ensure target item is in the order
-    if (!currentOrder.includes(targetId)) {
-      currentOrder.push(targetId);
-    }
+  const switchViewMode = (mode: TodoViewMode) => {
+    exitSelection();
+    setViewMode(mode);
+  };
+
+  const handleCalendarQuickAdd = (dueDate: string, text: string) => {
+    const parsed = parseQuickAdd(text, categories);
+    if (!parsed.text) return;
+    // The day clicked wins over any date typed in the text
+    storeAddTodo({
+      id: Date.now(),
+      text: parsed.text,
+      completed: false,
+      dueDate,
+      category: parsed.category,
+      priority: parsed.priority ?? "low",
+    });
+    addToast("Todo item added successfully!", "success", createUndoAction());
+  };
 
-    // Remove dragged item from its current position
-    const filteredOrder = currentOrder.filter(id => id !== draggedIdFromData);
+  const handleReschedule = (id: number, dueDate: string) => {
+    updateTodo(id, { dueDate });
+    addToast(`Rescheduled to ${formatRelativeDate(dueDate)}`, "info", createUndoAction());
+  };
 
-    // Find target position
-    const targetIndex = filteredOrder.indexOf(targetId);
+  // Drag and drop reordering in the manual order
+  const handleListDrop = (droppedId: number, targetId: number, position: DropPosition) => {
+    // Get current order or initialize with current todo ids
+    const currentOrder = todoOrder.length > 0 ? todoOrder : orderedTodos.map((t) => t.id);
+    reorderTodos(moveInOrder(currentOrder, droppedId, targetId, position));
+    addToast("Todo reordered", "info", createUndoAction());
+  };
 
-    // Insert at the correct position
-    const insertIndex = dropPosition === "before" ? targetIndex : targetIndex + 1;
-    filteredOrder.splice(insertIndex, 0, draggedIdFromData);
+  // Dropping on another column sets the grouped field; within a column it only reorders
+  const handleBoardMove = (
+    id: number,
+    column: BoardColumn,
+    targetId?: number,
+    position?: DropPosition
+  ) => {
+    const todo = todos.find((t) => t.id === id);
+    if (!todo) return;
+    const currentOrder = todoOrder.length > 0 ? todoOrder : orderedTodos.map((t) => t.id);
+    const newOrder =
+      targetId !== undefined && targetId !== id
+        ? moveInOrder(currentOrder, id, targetId, position ?? "after")
+        : currentOrder;
+
+    if (getBoardColumnKey(todo, boardGrouping, categories) === column.key) {
+      if (newOrder === currentOrder) return;
+      reorderTodos(newOrder);
+      addToast("Todo reordered", "info", createUndoAction());
+      return;
+    }
 
-    setTodoOrder(filteredOrder);
-    handleDragEnd();
-    addToast("Todo reordered", "info");
+    const changes = getBoardColumnChanges(boardGrouping, column.key);
+    let message = `Moved "${todo.text}" to ${column.label}`;
+    if (changes.completed) {
+      // Completing goes through toggle so recurring todos schedule their next occurrence
+      const nextOccurrence = toggleTodo(id, newOrder);
+      if (nextOccurrence?.dueDate) {
+        const nextDate = formatRelativeDate(nextOccurrence.dueDate);
+        message += `; next occurrence scheduled for ${nextDate}`;
+      }
+    } else {
+      storeMoveTodo(id, changes, newOrder);
+    }
+    addToast(message, "info", createUndoAction());
   };
 
+  const {
+    draggedId,
+    dropTargetId,
+    dropPosition,
+    handleDragStart,
+    handleDragEnd,
+    handleDragOver,
+    handleDragLeave,
+    handleDrop,
+  } = useTodoDrag(handleListDrop);
+
+  const {
+    listRef,
+    rows: visibleRows,
+    paddingTop,
+    paddingBottom,
+    measureRef,
+  } = useVirtualList(filteredTodos, {
+    enabled: viewMode === "list" && filteredTodos.length >= VIRTUALIZE_MIN_ROWS,
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+    overscan: VIRTUAL_OVERSCAN,
+    // Keep the dragged, edited and focused rows mounted when scrolled out of view
+    pinnedIds: [draggedId, editingId, focusedRowId],
+  });
+
   // Keyboard reordering with Alt+Arrow keys
   const handleTodoKeyDown = (e: React.KeyboardEvent, todoId: number, index: number) => {
     if (!e.altKey) return;
@@ -551,8 +853,9 @@ function TodoList() {
       : orderedTodos.map(t => t.id);
 
     // Ensure all filtered items are in the order
+    const inOrder = new Set(currentOrder);
     currentFilteredIds.forEach(id => {
-      if (!currentOrder.includes(id)) {
+      if (!inOrder.has(id)) {
         currentOrder.push(id);
       }
     });
@@ -568,8 +871,8 @@ function TodoList() {
     const insertAt = fromIndex < toIndex ? newTargetIndex + 1 : newTargetIndex;
     currentOrder.splice(insertAt, 0, movedId);
 
-    setTodoOrder(currentOrder);
-    addToast("Todo reordered", "info");
+    reorderTodos(currentOrder);
+    addToast("Todo reordered", "info", createUndoAction());
 
     // Maintain focus on the moved item
     setTimeout(() => {
@@ -591,8 +894,71 @@ function TodoList() {
             🔴 {priorityCounts.high}
           </span>
         )}
+        <button
+          className={`todo-select-mode-btn ${isSelecting ? "active" : ""}`}
+          data-testid="todo-select-mode-btn"
+          onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+          disabled={viewMode !== "list"}
+          aria-pressed={isSelecting}
+        >
+          {isSelecting ? "Cancel selection" : "Select"}
+        </button>
       </div>
-      <TodoStats todos={todos} />
+      <div className="todo-view-switcher" data-testid="todo-view-switcher" role="group" aria-label="View">
+        <button
+          className={`todo-filter-btn ${viewMode === "list" ? "active" : ""}`}
+          data-testid="todo-view-list"
+          onClick={() => switchViewMode("list")}
+          aria-pressed={viewMode === "list"}
+        >
+          ☰ List
+        </button>
+        <button
+          className={`todo-filter-btn ${viewMode === "calendar" ? "active" : ""}`}
+          data-testid="todo-view-calendar"
+          onClick={() => switchViewMode("calendar")}
+          aria-pressed={viewMode === "calendar"}
+        >
+          📅 Calendar
+        </button>
+        <button
+          className={`todo-filter-btn ${viewMode === "board" ? "active" : ""}`}
+          data-testid="todo-view-board"
+          onClick={() => switchViewMode("board")}
+          aria-pressed={viewMode === "board"}
+        >
+          ▦ Board
+        </button>
+        <button
+          className={`todo-filter-btn ${viewMode === "archive" ? "active" : ""}`}
+          data-testid="todo-view-archive"
+          onClick={() => switchViewMode("archive")}
+          aria-pressed={viewMode === "archive"}
+        >
+          🗄 Archive ({archivedTodos.length})
+        </button>
+        <button
+          className={`todo-filter-btn ${viewMode === "trash" ? "active" : ""}`}
+          data-testid="todo-view-trash"
+          onClick={() => switchViewMode("trash")}
+          aria-pressed={viewMode === "trash"}
+        >
+          🗑 Trash ({trashedTodos.length})
+        </button>
+      </div>
+      <FocusBar />
+      <SavedViews
+        views={views}
+        activeViewId={activeViewId}
+        counts={viewCounts}
+        suggestedName={describeViewSettings(currentViewSettings, getCategory)}
+        onApply={applyView}
+        onSave={handleSaveView}
+        onRename={renameView}
+        onDelete={deleteView}
+        onTogglePin={togglePin}
+        onMove={moveView}
+      />
       <div className="todo-search-filter-row" data-testid="todo-search-filter-row">
         <div className="todo-search-input-wrapper">
           <span className="todo-search-icon">🔍</span>
@@ -601,7 +967,8 @@ function TodoList() {
             data-testid="todo-search-input"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search todos..."
+            placeholder='Search todos... (e.g. priority:>=medium is:active "exact phrase")'
+            aria-describedby={parsedQuery.errors.length > 0 ? "todo-search-errors" : undefined}
             className="todo-search-input"
           />
           {searchQuery && (
@@ -619,16 +986,66 @@ function TodoList() {
           data-testid="category-filter"
           className="todo-category-filter"
           value={categoryFilter}
-          onChange={(e) => setCategoryFilter(e.target.value as CategoryType | "all")}
+          onChange={(e) => setCategoryFilter(e.target.value)}
         >
           <option value="all">All Categories</option>
-          {CATEGORIES.map((cat) => (
-            <option key={cat.value} value={cat.value}>
-              {cat.label}
+          {categories.map((cat) => (
+            <option key={cat.id} value={cat.id}>
+              {cat.icon} {cat.name}
             </option>
           ))}
         </select>
       </div>
+      {tagFilter.length > 0 && (
+        <div className="todo-tag-filter" data-testid="todo-tag-filter">
+          <span className="todo-due-date-filter-label">Tags:</span>
+          {tagFilter.map((tag) => (
+            <button
+              key={tag}
+              className="todo-tag-chip active"
+              data-testid="todo-tag-filter-chip"
+              onClick={() => toggleTagFilter(tag)}
+              aria-label={`Remove #${tag} from filter`}
+            >
+              #{tag} ×
+            </button>
+          ))}
+          {tagFilter.length > 1 && (
+            <>
+              <button
+                data-testid="todo-tag-match-any"
+                className={`todo-filter-btn ${tagMatch === "any" ? "active" : ""}`}
+                onClick={() => setTagMatch("any")}
+              >
+                Any
+              </button>
+              <button
+                data-testid="todo-tag-match-all"
+                className={`todo-filter-btn ${tagMatch === "all" ? "active" : ""}`}
+                onClick={() => setTagMatch("all")}
+              >
+                All
+              </button>
+            </>
+          )}
+          <button
+            data-testid="todo-tag-filter-clear"
+            className="todo-filter-btn"
+            onClick={() => setTagFilter([])}
+          >
+            Clear
+          </button>
+        </div>
+      )}
+      {parsedQuery.errors.length > 0 && (
+        <ul className="todo-search-errors" id="todo-search-errors" data-testid="todo-search-errors">
+          {parsedQuery.errors.map((error, i) => (
+            <li key={i} data-testid="todo-search-error">
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
       <div className="todo-filter-container" data-testid="todo-filter-container">
         <button
           data-testid="todo-filter-all"
@@ -651,6 +1068,15 @@ function TodoList() {
         >
           Completed ({counts.completed})
         </button>
+        {counts.completed > 0 && (
+          <button
+            data-testid="todo-archive-completed-btn"
+            className="todo-filter-btn"
+            onClick={archiveCompleted}
+          >
+            Archive completed
+          </button>
+        )}
       </div>
       <div className="todo-due-date-filter-container" data-testid="todo-due-date-filter-container">
         <span className="todo-due-date-filter-label">Due:</span>
@@ -697,6 +1123,7 @@ function TodoList() {
             <option value="priority">Priority</option>
             <option value="dueDate">Due Date</option>
             <option value="created">Created</option>
+            <option value="dependency">Dependency order</option>
           </select>
         </div>
         <div className="todo-priority-filter-container">
@@ -731,18 +1158,18 @@ function TodoList() {
           value={inputValue}
           onChange={(e) => setInputValue(e.target.value)}
           onKeyDown={handleKeyDown}
-          placeholder="Add a new todo..."
+          placeholder="Add a new todo... (try: Pay rent friday #personal !high)"
         />
         <select
           data-testid="category-select"
           className="todo-category-select"
           value={categoryValue}
-          onChange={(e) => setCategoryValue(e.target.value as CategoryType | "")}
+          onChange={(e) => setCategoryValue(e.target.value)}
         >
           <option value="">No Category</option>
-          {CATEGORIES.map((cat) => (
-            <option key={cat.value} value={cat.value}>
-              {cat.label}
+          {categories.map((cat) => (
+            <option key={cat.id} value={cat.id}>
+              {cat.icon} {cat.name}
             </option>
           ))}
         </select>
@@ -750,7 +1177,10 @@ function TodoList() {
           data-testid="priority-select"
           className="todo-priority-select"
           value={priorityValue}
-          onChange={(e) => setPriorityValue(e.target.value as PriorityType)}
+          onChange={(e) => {
+            setPriorityValue(e.target.value as PriorityType);
+            setIsPriorityPicked(true);
+          }}
         >
           {PRIORITIES.map((priority) => (
             <option key={priority.value} value={priority.value}>
@@ -777,25 +1207,154 @@ function TodoList() {
             </button>
           )}
         </div>
+        <input
+          type="time"
+          data-testid="todo-due-time-input"
+          className="todo-due-time-input"
+          value={dueTimeValue}
+          onChange={(e) => setDueTimeValue(e.target.value)}
+          aria-label="Due time"
+        />
+        <button
+          className={`recurrence-toggle-btn ${remindersValue ? "active" : ""}`}
+          data-testid="reminder-toggle-btn"
+          onClick={() => setIsReminderEditorOpen(!isReminderEditorOpen)}
+          aria-expanded={isReminderEditorOpen}
+          aria-label="Reminders"
+          title={remindersValue ? remindersValue.map(describeReminder).join(", ") : "Reminders"}
+        >
+          🔔
+        </button>
+        <button
+          className={`recurrence-toggle-btn ${recurrenceValue ? "active" : ""}`}
+          data-testid="recurrence-toggle-btn"
+          onClick={() => setIsRecurrenceEditorOpen(!isRecurrenceEditorOpen)}
+          aria-expanded={isRecurrenceEditorOpen}
+          aria-label="Repeat"
+          title={recurrenceValue ? describeRecurrence(recurrenceValue) : "Repeat"}
+        >
+          🔁
+        </button>
         <button data-testid="todo-add-btn" onClick={addTodo}>
           Add
         </button>
       </div>
-      {filteredTodos.length === 0 && (searchQuery || filter !== "all" || dueDateFilter !== "all" || categoryFilter !== "all" || priorityFilter !== "all") ? (
+      <div className="todo-add-tags" data-testid="todo-add-tags">
+        <TagEditor tags={tagsValue} suggestions={allTags} onChange={setTagsValue} />
+      </div>
+      {(quickAdd.dueDate || quickAdd.category || quickAdd.priority) && (
+        <div className="quick-add-preview" data-testid="quick-add-preview">
+          {quickAdd.dueDate && (
+            <span
+              className="quick-add-chip"
+              data-testid="quick-add-chip-date"
+              title={`Recognized "${quickAdd.dueDateLabel}"`}
+            >
+              📅 {formatRelativeDate(quickAdd.dueDate)}
+              {dueDateValue && " (overridden by date picker)"}
+            </span>
+          )}
+          {quickAdd.category && (
+            <CategoryTag
+              categoryId={quickAdd.category}
+              className="quick-add-chip"
+              testId="quick-add-chip-category"
+            >
+              {categoryValue && " (overridden)"}
+            </CategoryTag>
+          )}
+          {quickAdd.priority && (
+            <span
+              className={`quick-add-chip quick-add-chip-priority-${quickAdd.priority}`}
+              data-testid="quick-add-chip-priority"
+            >
+              {PRIORITIES.find((p) => p.value === quickAdd.priority)?.emoji}{" "}
+              {PRIORITIES.find((p) => p.value === quickAdd.priority)?.label}
+              {isPriorityPicked && " (overridden)"}
+            </span>
+          )}
+        </div>
+      )}
+      {isRecurrenceEditorOpen && (
+        <RecurrenceEditor
+          rule={recurrenceValue}
+          baseDate={effectiveDueDate || toLocalDateString(new Date())}
+          onChange={setRecurrenceValue}
+        />
+      )}
+      {isReminderEditorOpen && (
+        <ReminderEditor
+          reminders={remindersValue}
+          dueAt={newTodoDueAt}
+          onChange={(changes) => setRemindersValue(changes.reminders)}
+        />
+      )}
+      {isSelecting && viewMode === "list" && (
+        <BulkActionBar
+          selectedCount={selectedVisibleIds.length}
+          visibleCount={filteredTodos.length}
+          categories={categories}
+          lists={lists}
+          priorities={PRIORITIES}
+          onSelectAll={handleSelectAll}
+          onSetCompleted={bulkSetCompleted}
+          onDelete={bulkDelete}
+          onSetCategory={bulkSetCategory}
+          onMoveToList={bulkMoveToList}
+          onSetPriority={bulkSetPriority}
+          onSetDueDate={bulkSetDueDate}
+          onExit={exitSelection}
+        />
+      )}
+      {viewMode === "archive" || viewMode === "trash" ? (
+        <TodoBin kind={viewMode} />
+      ) : viewMode === "calendar" ? (
+        <CalendarView
+          todos={filteredTodos}
+          mode={calendarMode}
+          onModeChange={setCalendarMode}
+          onReschedule={handleReschedule}
+          onQuickAdd={handleCalendarQuickAdd}
+        />
+      ) : viewMode === "board" ? (
+        <KanbanBoard
+          todos={filteredTodos}
+          order={todoOrder}
+          grouping={boardGrouping}
+          priorities={PRIORITIES}
+          onGroupingChange={setBoardGrouping}
+          onToggle={handleToggle}
+          onMove={handleBoardMove}
+        />
+      ) : filteredTodos.length === 0 && (searchQuery || filter !== "all" || dueDateFilter !== "all" || categoryFilter !== "all" || priorityFilter !== "all" || tagFilter.length > 0) ? (
         <p className="todo-no-results" data-testid="todo-no-results">
           No matching todos found
         </p>
       ) : (
-        <ul className="todo-items" data-testid="todo-items">
-          {filteredTodos.map((todo, index) => {
+        <ul
+          ref={listRef}
+          className="todo-items"
+          data-testid="todo-items"
+          style={paddingTop || paddingBottom ? { paddingTop, paddingBottom } : undefined}
+        >
+          {visibleRows.map(({ item: todo, index }) => {
             const todoIsOverdue = todo.dueDate && !todo.completed && isOverdue(todo.dueDate);
             const isDragging = draggedId === todo.id;
             const isDropTarget = dropTargetId === todo.id;
+            const subtasks = todo.subtasks ?? [];
+            const completedSubtasks = subtasks.filter((s) => s.completed).length;
+            const isExpanded = expandedIds.includes(todo.id);
+            const isSelected = isSelecting && selectedIds.includes(todo.id);
+            const openBlockers = todo.completed ? [] : getOpenBlockers(todo, todosById);
+            const isFocused = focusTimer?.todoId === todo.id;
+            const trackedMs = trackedTime.get(todo.id) ?? 0;
+            const todoList = getList(getTodoListId(todo));
             return (
               <li
                 key={todo.id}
+                ref={measureRef(todo.id)}
                 data-todo-id={todo.id}
-                className={`todo-item ${todo.completed ? "completed" : ""} ${todoIsOverdue ? "todo-item-overdue" : ""} ${isDragging ? "todo-item-dragging" : ""} ${isDropTarget && dropPosition === "before" ? "todo-item-drop-before" : ""} ${isDropTarget && dropPosition === "after" ? "todo-item-drop-after" : ""}`}
+                className={`todo-item ${todo.completed ? "completed" : ""} ${todoIsOverdue ? "todo-item-overdue" : ""} ${isDragging ? "todo-item-dragging" : ""} ${isDropTarget && dropPosition === "before" ? "todo-item-drop-before" : ""} ${isDropTarget && dropPosition === "after" ? "todo-item-drop-after" : ""} ${isSelected ? "todo-item-selected" : ""} ${openBlockers.length > 0 ? "todo-item-blocked" : ""}`}
                 data-testid="todo-item"
                 draggable
                 onDragStart={(e) => handleDragStart(e, todo.id)}
@@ -803,7 +1362,22 @@ function TodoList() {
                 onDragOver={(e) => handleDragOver(e, todo.id)}
                 onDragLeave={handleDragLeave}
                 onDrop={(e) => handleDrop(e, todo.id)}
+                onFocus={() => setFocusedRowId(todo.id)}
+                onBlur={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node)) setFocusedRowId(null);
+                }}
               >
+                {isSelecting && (
+                  <input
+                    type="checkbox"
+                    className="todo-select-checkbox"
+                    data-testid="todo-select-checkbox"
+                    checked={isSelected}
+                    onClick={(e) => handleSelect(todo.id, e.shiftKey)}
+                    readOnly
+                    aria-label={`Select ${todo.text}`}
+                  />
+                )}
                 <span
                   className="drag-handle"
                   data-testid="drag-handle"
@@ -818,7 +1392,7 @@ function TodoList() {
                   type="checkbox"
                   data-testid="todo-checkbox"
                   checked={todo.completed}
-                  onChange={() => toggleTodo(todo.id)}
+                  onChange={() => handleToggle(todo.id)}
                 />
                 <div className="todo-item-content">
                   <div className="todo-text-container">
@@ -830,24 +1404,36 @@ function TodoList() {
                       {PRIORITIES.find(p => p.value === todo.priority)?.emoji}
                     </span>
                     {todo.category && (
+                      <CategoryTag
+                        categoryId={todo.category}
+                        testId={`category-tag-${todo.category}`}
+                      />
+                    )}
+                    {activeListId === ALL_LISTS && lists.length > 1 && todoList && (
                       <span
-                        data-testid={`category-tag-${todo.category}`}
-                        className={`category-tag category-tag-${todo.category}`}
+                        className="todo-list-chip"
+                        data-testid="todo-list-chip"
+                        style={{ borderColor: todoList.color, color: todoList.color }}
                       >
-                        {CATEGORIES.find((c) => c.value === todo.category)?.label}
+                        {todoList.name}
                       </span>
                     )}
                     {editingId === todo.id ? (
-                      <input
-                        type="text"
-                        data-testid="todo-edit-input"
-                        value={editValue}
-                        onChange={(e) => setEditValue(e.target.value)}
+                      <div
+                        className="todo-edit-container"
                         onKeyDown={(e) => handleEditKeyDown(e, todo.id)}
-                        onBlur={() => handleEditBlur(todo.id)}
-                        className="todo-edit-input"
-                        autoFocus
-                      />
+                        onBlur={(e) => handleEditBlur(e, todo.id)}
+                      >
+                        <input
+                          type="text"
+                          data-testid="todo-edit-input"
+                          value={editValue}
+                          onChange={(e) => setEditValue(e.target.value)}
+                          className="todo-edit-input"
+                          autoFocus
+                        />
+                        <TagEditor tags={editTags} suggestions={allTags} onChange={setEditTags} />
+                      </div>
                     ) : (
                       <span
                         data-testid="todo-text"
@@ -857,6 +1443,93 @@ function TodoList() {
                         {highlightMatch(todo.text)}
                       </span>
                     )}
+                    {editingId !== todo.id &&
+                      todo.tags?.map((tag) => (
+                        <button
+                          key={tag}
+                          className={`todo-tag-chip ${tagFilter.includes(tag) ? "active" : ""}`}
+                          data-testid="todo-tag-chip"
+                          onClick={() => toggleTagFilter(tag)}
+                          aria-pressed={tagFilter.includes(tag)}
+                          title={tagFilter.includes(tag) ? `Stop filtering by #${tag}` : `Filter by #${tag}`}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    {openBlockers.length > 0 && (
+                      <span
+                        className="todo-blocked-badge"
+                        data-testid="todo-blocked-badge"
+                        title={`Waiting on: ${openBlockers.map((blocker) => blocker.text).join(", ")}`}
+                      >
+                        ⛔ Blocked
+                      </span>
+                    )}
+                    <button
+                      className={`subtask-toggle ${subtasks.length > 0 && completedSubtasks === subtasks.length ? "subtask-toggle-done" : ""}`}
+                      data-testid="subtask-toggle"
+                      onClick={() => toggleSubtasksExpanded(todo.id)}
+                      aria-expanded={isExpanded}
+                      aria-label={`${isExpanded ? "Hide" : "Show"} steps for ${todo.text}`}
+                    >
+                      {subtasks.length > 0 ? (
+                        <span data-testid="subtask-progress">
+                          {completedSubtasks}/{subtasks.length}
+                        </span>
+                      ) : (
+                        "+ Steps"
+                      )}
+                    </button>
+                    <button
+                      className={`subtask-toggle todo-details-btn ${todo.notes ? "has-notes" : ""}`}
+                      data-testid="todo-details-btn"
+                      onClick={() => navigate(getTodoPath(todo.id))}
+                      aria-label={`Open details for ${todo.text}`}
+                    >
+                      {todo.notes ? (
+                        <span data-testid="todo-notes-indicator" title="Has notes">
+                          📝 Notes
+                        </span>
+                      ) : (
+                        "Details"
+                      )}
+                    </button>
+                    <button
+                      className={`subtask-toggle todo-focus-btn ${isFocused ? "active" : ""}`}
+                      data-testid="todo-focus-btn"
+                      onClick={() => startFocus(todo.id)}
+                      disabled={isFocused}
+                      aria-label={`Start a focus session on ${todo.text}`}
+                      title={trackedMs > 0 ? `Tracked ${formatTrackedTime(trackedMs)}` : undefined}
+                    >
+                      {isFocused ? "● Focusing" : "⏱ "}
+                      {!isFocused &&
+                        (trackedMs > 0 ? (
+                          <span data-testid="todo-tracked-time">{formatTrackedTime(trackedMs)}</span>
+                        ) : (
+                          "Focus"
+                        ))}
+                    </button>
+                    {lists.length > 1 && (
+                      <select
+                        className="todo-move-select"
+                        data-testid="todo-move-select"
+                        value=""
+                        onChange={(e) => handleMoveToList(todo, e.target.value)}
+                        aria-label={`Move ${todo.text} to another list`}
+                      >
+                        <option value="" disabled>
+                          Move to…
+                        </option>
+                        {lists
+                          .filter((list) => list.id !== todoList?.id)
+                          .map((list) => (
+                            <option key={list.id} value={list.id}>
+                              {list.name}
+                            </option>
+                          ))}
+                      </select>
+                    )}
                   </div>
                   {todo.dueDate && (
                     <span
@@ -869,9 +1542,68 @@ function TodoList() {
                         </span>
                       )}
                       <span data-testid="todo-due-date-text">{formatRelativeDate(todo.dueDate)}</span>
+                      {todo.dueTime && (
+                        <span className="todo-due-time-text" data-testid="todo-due-time-text">at {todo.dueTime}</span>
+                      )}
+                      <button
+                        className={`todo-reminder-btn ${todo.reminders ? "active" : ""}`}
+                        data-testid="todo-reminder-btn"
+                        onClick={() =>
+                          setReminderEditingId(reminderEditingId === todo.id ? null : todo.id)
+                        }
+                        aria-expanded={reminderEditingId === todo.id}
+                        title={
+                          todo.reminders
+                            ? todo.reminders.map(describeReminder).join(", ")
+                            : "Set time and reminders"
+                        }
+                      >
+                        🔔{todo.reminders && ` ${todo.reminders.length}`}
+                      </button>
+                      {todo.recurrence && (
+                        <button
+                          className="todo-recurrence-badge"
+                          data-testid="todo-recurrence-badge"
+                          onClick={() =>
+                            setRecurrenceEditingId(recurrenceEditingId === todo.id ? null : todo.id)
+                          }
+                          aria-expanded={recurrenceEditingId === todo.id}
+                          title="Edit repeat rule"
+                        >
+                          🔁 {describeRecurrence(todo.recurrence)}
+                        </button>
+                      )}
                     </span>
                   )}
+                  {recurrenceEditingId === todo.id && todo.dueDate && (
+                    <RecurrenceEditor
+                      rule={todo.recurrence}
+                      baseDate={todo.dueDate}
+                      onChange={(rule) => {
+                        updateTodo(todo.id, { recurrence: rule });
+                        if (!rule) setRecurrenceEditingId(null);
+                      }}
+                    />
+                  )}
+                  {reminderEditingId === todo.id && todo.dueDate && (
+                    <ReminderEditor
+                      reminders={todo.reminders}
+                      dueTime={todo.dueTime}
+                      dueAt={getDueTimestamp(todo)}
+                      showTime
+                      onChange={(changes) => updateTodo(todo.id, changes)}
+                    />
+                  )}
+                  {isExpanded && <SubtaskList todo={todo} />}
                 </div>
+                <button
+                  className="todo-archive-btn"
+                  data-testid="todo-archive-btn"
+                  onClick={() => archiveTodo(todo.id)}
+                  title="Archive"
+                >
+                  Archive
+                </button>
                 <button
                   data-testid="todo-delete-btn"
                   onClick={() => deleteTodo(todo.id)}
@@ -883,6 +1615,19 @@ function TodoList() {
           })}
         </ul>
       )}
+      {detailsTodo && (
+        <TodoDetailsPanel
+          key={detailsTodo.id}
+          todo={detailsTodo}
+          todos={todos}
+          categories={categories}
+          priorities={PRIORITIES}
+          onChange={(changes) => updateTodo(detailsTodo.id, changes)}
+          onClose={() => navigate("/")}
+        />
+      )}
+      <CategoryManager />
+      <TodoImportExport categories={categories} />
     </div>
   );
 }
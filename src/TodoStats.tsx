@@ -1,45 +1,111 @@
 import { useState, useEffect, useMemo } from "react";
+import { useCategories } from "./CategoryContext";
+import { useFocus } from "./FocusContext";
+import StatsCharts from "./StatsCharts";
+import { Todo } from "./todoReducer";
+import { usePersistedState } from "./usePersistedState";
+import { formatTrackedTime } from "./utils/focus";
+import { WEEKDAY_LABELS } from "./utils/recurrence";
+import { StorageSchema } from "./utils/storage";
+import { StreakGoal, computeStreaks, countCompletionsByDay } from "./utils/streaks";
 
 interface TodoStatsProps {
-  todos: { id: number; text: string; completed: boolean }[];
+  todos: Todo[];
+  archivedTodos: Todo[]; // Still count towards historical charts
+  trashedTodos: Todo[]; // Completed before they were deleted, so they keep streaks going
 }
 
-const STREAK_STORAGE_KEY = "todo-streak-data";
-
-interface StreakData {
-  currentStreak: number;
-  lastCompletedDate: string | null;
-}
-
-function getToday(): string {
-  return new Date().toISOString().split("T")[0];
-}
-
-function loadStreakData(): StreakData {
-  const saved = localStorage.getItem(STREAK_STORAGE_KEY);
-  if (saved) {
-    return JSON.parse(saved);
-  }
-  return { currentStreak: 0, lastCompletedDate: null };
-}
-
-function saveStreakData(data: StreakData): void {
-  localStorage.setItem(STREAK_STORAGE_KEY, JSON.stringify(data));
+interface StreakRecord {
+  longestStreak: number; // Kept so the best streak survives emptying the trash
 }
 
-function TodoStats({ todos }: TodoStatsProps) {
+const streakSchema: StorageSchema<StreakRecord> = {
+  key: "todo-streak-data",
+  migrations: [
+    (data) => data,
+    // v1 → v2: streaks are computed from completion times; the old counter seeds the best streak
+    (data) => {
+      const { currentStreak } = (data ?? {}) as { currentStreak?: unknown };
+      return { longestStreak: typeof currentStreak === "number" ? currentStreak : 0 };
+    },
+  ],
+  validate: (data) => {
+    const { longestStreak } = (data ?? {}) as Partial<StreakRecord>;
+    if (typeof longestStreak !== "number" || longestStreak < 0) return null;
+    return { value: { longestStreak }, invalid: 0 };
+  },
+  fallback: () => ({ longestStreak: 0 }),
+};
+
+const streakGoalSchema: StorageSchema<StreakGoal> = {
+  key: "todo-streak-goal",
+  migrations: [(data) => data],
+  validate: (data) => {
+    const { dailyGoal, restDays } = (data ?? {}) as Partial<StreakGoal>;
+    if (typeof dailyGoal !== "number" || !Number.isInteger(dailyGoal) || dailyGoal < 1) return null;
+    const isWeekday = (day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6;
+    if (!Array.isArray(restDays) || !restDays.every(isWeekday)) return null;
+    return { value: { dailyGoal, restDays }, invalid: 0 };
+  },
+  fallback: () => ({ dailyGoal: 1, restDays: [] }),
+};
+
+const DAILY_GOAL_OPTIONS = [1, 2, 3, 4, 5, 6, 8, 10];
+
+function TodoStats({ todos, archivedTodos, trashedTodos }: TodoStatsProps) {
   const [isExpanded, setIsExpanded] = useState(true);
-  const [streakData, setStreakData] = useState<StreakData>(loadStreakData);
+  const [streakRecord, setStreakRecord] = usePersistedState(streakSchema);
+  const [streakGoal, setStreakGoal] = usePersistedState(streakGoalSchema);
   const [animatedPercentage, setAnimatedPercentage] = useState(0);
+  const { trackedTime } = useFocus();
+  const { getCategory } = useCategories();
 
   const stats = useMemo(() => {
     const total = todos.length;
     const completed = todos.filter((t) => t.completed).length;
     const pending = total - completed;
     const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
-    return { total, completed, pending, percentage };
+    // Subtasks are counted on their own so they don't skew the top-level numbers
+    const subtasks = todos.flatMap((t) => t.subtasks ?? []);
+    const subtasksTotal = subtasks.length;
+    const subtasksCompleted = subtasks.filter((s) => s.completed).length;
+    return { total, completed, pending, percentage, subtasksTotal, subtasksCompleted };
   }, [todos]);
 
+  const historyTodos = useMemo(() => [...todos, ...archivedTodos], [todos, archivedTodos]);
+
+  const streak = useMemo(
+    () => computeStreaks(countCompletionsByDay([...historyTodos, ...trashedTodos]), streakGoal),
+    [historyTodos, trashedTodos, streakGoal]
+  );
+  const longestStreak = Math.max(streak.longest, streakRecord.longestStreak);
+
+  // Focused time per category, busiest first; time on todos that were deleted for good is left out
+  const timeByCategory = useMemo(() => {
+    const totals = new Map<string, number>();
+    [...historyTodos, ...trashedTodos].forEach((todo) => {
+      const ms = trackedTime.get(todo.id);
+      if (!ms) return;
+      const key = todo.category ?? "";
+      totals.set(key, (totals.get(key) ?? 0) + ms);
+    });
+    return [...totals].sort((a, b) => b[1] - a[1]);
+  }, [historyTodos, trashedTodos, trackedTime]);
+  const totalTrackedTime = timeByCategory.reduce((sum, [, ms]) => sum + ms, 0);
+
+  useEffect(() => {
+    if (streak.longest > streakRecord.longestStreak) {
+      setStreakRecord({ longestStreak: streak.longest });
+    }
+  }, [streak.longest, streakRecord.longestStreak]);
+
+  const toggleRestDay = (day: number) => {
+    const restDays = streakGoal.restDays.includes(day)
+      ? streakGoal.restDays.filter((d) => d !== day)
+      : [...streakGoal.restDays, day].sort((a, b) => a - b);
+    setStreakGoal({ ...streakGoal, restDays });
+  };
+
   // Animate progress bar when percentage changes
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -48,62 +114,6 @@ function TodoStats({ todos }: TodoStatsProps) {
     return () => clearTimeout(timer);
   }, [stats.percentage]);
 
-  // Update streak when todos are completed
-  useEffect(() => {
-    const hasCompletedToday = todos.some((t) => t.completed);
-    const today = getToday();
-
-    if (hasCompletedToday) {
-      const { lastCompletedDate, currentStreak } = streakData;
-
-      if (lastCompletedDate === today) {
-        // Already recorded for today
-        return;
-      }
-
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split("T")[0];
-
-      let newStreak: number;
-      if (lastCompletedDate === yesterdayStr) {
-        // Continue streak
-        newStreak = currentStreak + 1;
-      } else if (lastCompletedDate === null) {
-        // First time
-        newStreak = 1;
-      } else {
-        // Streak broken, start new
-        newStreak = 1;
-      }
-
-      const newData: StreakData = {
-        currentStreak: newStreak,
-        lastCompletedDate: today,
-      };
-      setStreakData(newData);
-      saveStreakData(newData);
-    }
-  }, [todos, streakData]);
-
-  // Check if streak is still valid on load
-  useEffect(() => {
-    const { lastCompletedDate, currentStreak } = streakData;
-    if (!lastCompletedDate || currentStreak === 0) return;
-
-    const today = getToday();
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayStr = yesterday.toISOString().split("T")[0];
-
-    // If last completed date is not today or yesterday, reset streak
-    if (lastCompletedDate !== today && lastCompletedDate !== yesterdayStr) {
-      const newData: StreakData = { currentStreak: 0, lastCompletedDate: null };
-      setStreakData(newData);
-      saveStreakData(newData);
-    }
-  }, []);
-
   return (
     <div className="todo-stats" data-testid="todo-stats">
       <button
@@ -153,9 +163,12 @@ function TodoStats({ todos }: TodoStatsProps) {
               <span className="todo-stat-icon">🔥</span>
               <div className="todo-stat-content">
                 <span className="todo-stat-value" data-testid="todo-stat-streak-value">
-                  {streakData.currentStreak}
+                  {streak.current}
+                </span>
+                <span className="todo-stat-label">
+                  Day Streak · Best{" "}
+                  <span data-testid="todo-stat-longest-streak-value">{longestStreak}</span>
                 </span>
-                <span className="todo-stat-label">Day Streak</span>
               </div>
             </div>
           </div>
@@ -173,6 +186,65 @@ function TodoStats({ todos }: TodoStatsProps) {
               />
             </div>
           </div>
+
+          <div className="todo-stats-subtasks" data-testid="todo-stats-subtasks">
+            <span className="todo-stat-label">Steps</span>
+            <span data-testid="todo-stats-subtasks-value">
+              {stats.subtasksCompleted}/{stats.subtasksTotal} completed
+            </span>
+          </div>
+
+          <div className="todo-stats-goal" data-testid="todo-stats-goal">
+            <span data-testid="todo-stats-goal-progress">
+              Today: {Math.min(streak.todayCount, streakGoal.dailyGoal)}/{streakGoal.dailyGoal}
+              {streak.isTodayMet ? " ✓ goal met" : streak.isRestDay ? " · rest day" : ""}
+            </span>
+            <label className="todo-stats-goal-field">
+              Daily goal
+              <select
+                data-testid="todo-stats-goal-select"
+                value={streakGoal.dailyGoal}
+                onChange={(e) => setStreakGoal({ ...streakGoal, dailyGoal: Number(e.target.value) })}
+              >
+                {DAILY_GOAL_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count} per day
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="todo-stats-rest-days" role="group" aria-label="Rest days">
+              <span>Rest days</span>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  className={`todo-filter-btn ${streakGoal.restDays.includes(day) ? "active" : ""}`}
+                  data-testid={`todo-stats-rest-day-${day}`}
+                  onClick={() => toggleRestDay(day)}
+                  aria-pressed={streakGoal.restDays.includes(day)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="todo-stats-time" data-testid="todo-stats-time">
+            <div className="todo-stats-time-header">
+              <span className="todo-stat-label">Focused time</span>
+              <span data-testid="todo-stats-time-total">
+                {totalTrackedTime > 0 ? formatTrackedTime(totalTrackedTime) : "None yet"}
+              </span>
+            </div>
+            {timeByCategory.map(([key, ms]) => (
+              <div key={key} className="todo-stats-time-row" data-testid="todo-stats-time-row">
+                <span>{key ? getCategory(key)?.name ?? key : "No category"}</span>
+                <span>{formatTrackedTime(ms)}</span>
+              </div>
+            ))}
+          </div>
+
+          <StatsCharts todos={historyTodos} />
         </div>
       )}
     </div>
@@ -1,18 +1,51 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { CategoryProvider } from "./CategoryContext";
+import { FocusProvider } from "./FocusContext";
+import { ListProvider } from "./ListContext";
+import { RouterProvider } from "./RouterContext";
 import { ThemeProvider } from "./ThemeContext";
+import { TodoProvider } from "./TodoContext";
 import { ToastProvider } from "./ToastContext";
 import Toast from "./Toast";
+import { StorageBackend, STORAGE_BACKENDS, initStorage } from "./utils/storageAdapters";
 import "./index.css";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <ThemeProvider>
-      <ToastProvider>
-        <App />
-        <Toast />
-      </ToastProvider>
-    </ThemeProvider>
-  </React.StrictMode>
-);
+const STORAGE_BACKEND_KEY = "webby-storage-backend";
+
+// The backend can be chosen with ?storage=indexedDB; the choice is remembered
+function getStorageBackend(): StorageBackend {
+  const requested = new URLSearchParams(window.location.search).get("storage");
+  if (STORAGE_BACKENDS.includes(requested as StorageBackend)) {
+    localStorage.setItem(STORAGE_BACKEND_KEY, requested!);
+    return requested as StorageBackend;
+  }
+  const saved = localStorage.getItem(STORAGE_BACKEND_KEY);
+  return STORAGE_BACKENDS.includes(saved as StorageBackend)
+    ? (saved as StorageBackend)
+    : "localStorage";
+}
+
+initStorage(getStorageBackend()).then(() => {
+  ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <RouterProvider>
+        <ThemeProvider>
+          <ToastProvider>
+            <TodoProvider>
+              <CategoryProvider>
+                <ListProvider>
+                  <FocusProvider>
+                    <App />
+                    <Toast />
+                  </FocusProvider>
+                </ListProvider>
+              </CategoryProvider>
+            </TodoProvider>
+          </ToastProvider>
+        </ThemeProvider>
+      </RouterProvider>
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,131 @@
+import type { ActivityValue, Todo, TodoActivity } from "./todoReducer";
+import { describeRecurrence } from "./utils/recurrence";
+
+// Fields whose changes are recorded in a todo's activity log, in display order
+const TRACKED_FIELDS = [
+  "text",
+  "completed",
+  "priority",
+  "category",
+  "listId",
+  "dueDate",
+  "dueTime",
+  "tags",
+  "notes",
+  "recurrence",
+  "reminders",
+  "subtasks",
+  "blockedBy",
+  "archivedAt",
+  "deletedAt",
+] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export const ACTIVITY_LABELS: Record<TrackedField, string> = {
+  text: "Title",
+  completed: "Completed",
+  priority: "Priority",
+  category: "Category",
+  listId: "List",
+  dueDate: "Due date",
+  dueTime: "Due time",
+  tags: "Tags",
+  notes: "Notes",
+  recurrence: "Repeat",
+  reminders: "Reminders",
+  subtasks: "Steps",
+  blockedBy: "Blocked by",
+  archivedAt: "Archived",
+  deletedAt: "In trash",
+};
+
+// Reduces a field to a small, comparable value for the log
+function getActivityValue(todo: Todo, field: TrackedField): ActivityValue {
+  switch (field) {
+    case "recurrence":
+      return todo.recurrence ? describeRecurrence(todo.recurrence) : null;
+    case "subtasks": {
+      const subtasks = todo.subtasks ?? [];
+      if (subtasks.length === 0) return null;
+      return `${subtasks.filter((s) => s.completed).length}/${subtasks.length} done`;
+    }
+    case "archivedAt":
+    case "deletedAt":
+      return todo[field] !== undefined;
+    case "tags":
+    case "reminders":
+    case "blockedBy":
+      return todo[field]?.length ? todo[field]! : null;
+    default:
+      return todo[field] ?? null;
+  }
+}
+
+/**
+ * Lists the tracked fields that differ between two versions of a todo.
+ * @param before The todo before the change
+ * @param after The todo after the change
+ * @param at When the change happened
+ * @returns One entry per changed field, with its old and new value
+ */
+export function diffTodo(before: Todo, after: Todo, at: number): TodoActivity[] {
+  const entries: TodoActivity[] = [];
+  TRACKED_FIELDS.forEach((field) => {
+    const from = getActivityValue(before, field);
+    const to = getActivityValue(after, field);
+    if (JSON.stringify(from) !== JSON.stringify(to)) entries.push({ at, field, from, to });
+  });
+  return entries;
+}
+
+/**
+ * Stamps lifecycle timestamps and appends activity entries for everything that
+ * changed between two lists of todos. The log always continues from the previous
+ * version, so undoing a change is recorded too rather than erasing history.
+ * @param previous The todos before the change
+ * @param next The todos after the change
+ * @param at When the change happened
+ * @returns The next todos with timestamps and activity filled in
+ */
+export function trackChanges(previous: Todo[], next: Todo[], at: number): Todo[] {
+  const previousById = new Map(previous.map((todo) => [todo.id, todo]));
+
+  return next.map((todo) => {
+    const before = previousById.get(todo.id);
+    if (!before) return todo.createdAt === undefined ? { ...todo, createdAt: at } : todo;
+    if (before === todo) return todo;
+
+    const entries = diffTodo(before, todo, at);
+    // Replacements (e.g. an import) may not carry these, so keep the originals
+    const tracked: Todo = {
+      ...todo,
+      createdAt: todo.createdAt ?? before.createdAt,
+      activity: before.activity,
+    };
+    if (entries.length > 0) {
+      tracked.activity = [...(before.activity ?? []), ...entries];
+      tracked.updatedAt = at;
+    }
+    if (todo.completed !== before.completed) {
+      tracked.completedAt = todo.completed ? at : undefined;
+    }
+    return tracked;
+  });
+}
+
+/**
+ * Formats a logged value for display.
+ * @param value The logged value
+ * @returns A short, readable string
+ */
+export function formatActivityValue(value: ActivityValue): string {
+  if (value === null || value === "") return "none";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+export function getActivityLabel(field: string): string {
+  return ACTIVITY_LABELS[field as TrackedField] ?? field;
+}
@@ -0,0 +1,237 @@
+import { CategoryType, PriorityType, Todo } from "./todoReducer";
+import { getStartOfDay, toLocalDateString } from "./utils/date";
+import { ParsedQuery, SearchableTodo, scoreLowercasedTodo } from "./utils/searchQuery";
+
+export type FilterType = "all" | "active" | "completed";
+export type DueDateFilterType = "all" | "today" | "overdue" | "upcoming";
+export type PriorityFilterType = "all" | "high" | "medium-plus" | "high-only";
+export type SortType = "manual" | "priority" | "dueDate" | "created" | "dependency";
+export type TagMatchType = "any" | "all";
+export type TodoViewMode = "list" | "calendar" | "board" | "archive" | "trash";
+export type DueBucket = "overdue" | "today" | "upcoming" | "none";
+
+export interface TodoFilterSettings {
+  filter: FilterType;
+  dueDateFilter: DueDateFilterType;
+  categoryFilter: CategoryType | "all";
+  priorityFilter: PriorityFilterType;
+  tagFilter: string[];
+  tagMatch: TagMatchType;
+}
+
+// Everything needed to reproduce a list view: the filters plus sort and search
+export interface TodoViewSettings extends TodoFilterSettings {
+  sortBy: SortType;
+  searchQuery: string;
+}
+
+// Checks the todo carries any (or all) of the filtered tags; an empty filter matches everything
+export function matchesTagFilter(todo: Todo, tagFilter: string[], tagMatch: TagMatchType): boolean {
+  if (tagFilter.length === 0) return true;
+  const tags = todo.tags ?? [];
+  return tagMatch === "all"
+    ? tagFilter.every((tag) => tags.includes(tag))
+    : tagFilter.some((tag) => tags.includes(tag));
+}
+
+// Checks the all/active/completed filter
+export function matchesStatusFilter(todo: Todo, filter: FilterType): boolean {
+  return (
+    filter === "all" ||
+    (filter === "active" && !todo.completed) ||
+    (filter === "completed" && todo.completed)
+  );
+}
+
+// Checks the status, due date, category, priority and tag filters (search is handled separately)
+export function matchesFilters(
+  todo: Todo,
+  settings: TodoFilterSettings,
+  dueBucket: DueBucket = getDueBucket(todo)
+): boolean {
+  const { filter, dueDateFilter, categoryFilter, priorityFilter, tagFilter, tagMatch } = settings;
+
+  const matchesFilter = matchesStatusFilter(todo, filter);
+
+  // Due date filter logic
+  const matchesDueDateFilter = dueDateFilter === "all" || dueBucket === dueDateFilter;
+
+  // Category filter logic
+  const matchesCategoryFilter =
+    categoryFilter === "all" || todo.category === categoryFilter;
+
+  // Priority filter logic
+  let matchesPriorityFilter = true;
+  if (priorityFilter !== "all") {
+    if (priorityFilter === "high-only") {
+      matchesPriorityFilter = todo.priority === "high";
+    } else if (priorityFilter === "medium-plus") {
+      matchesPriorityFilter = todo.priority === "high" || todo.priority === "medium";
+    } else if (priorityFilter === "high") {
+      matchesPriorityFilter = todo.priority === "high";
+    }
+  }
+
+  return (
+    matchesFilter &&
+    matchesDueDateFilter &&
+    matchesCategoryFilter &&
+    matchesPriorityFilter &&
+    matchesTagFilter(todo, tagFilter, tagMatch)
+  );
+}
+
+// Buckets a todo by its due date relative to today (the start of which can be passed in when bucketing many)
+export function getDueBucket(todo: Todo, today: Date = getStartOfDay(new Date())): DueBucket {
+  if (!todo.dueDate) return "none";
+  const due = getStartOfDay(new Date(todo.dueDate)).getTime();
+  if (due === today.getTime()) return "today";
+  return due < today.getTime() ? "overdue" : "upcoming";
+}
+
+// A todo with everything filtering needs worked out once, rather than on every keystroke
+export interface IndexedTodo {
+  todo: Todo;
+  searchable: SearchableTodo;
+  lowerText: string;
+  lowerNotes: string;
+  dueBucket: DueBucket;
+}
+
+export interface TodoListCounts {
+  status: Record<FilterType, number>; // Search matches by status
+  priority: Record<PriorityType | "all", number>; // Also narrowed by the status and category filters
+  dueDate: Record<DueDateFilterType, number>; // Search matches by due date
+}
+
+export interface FilteredTodos {
+  todos: Todo[];
+  counts: TodoListCounts;
+}
+
+// Todos are replaced rather than mutated, so lowercased text can be kept per todo object
+const lowercasedText = new WeakMap<Todo, { lowerText: string; lowerNotes: string }>();
+
+/**
+ * Precomputes the lowercased text, due bucket and blocked state of each todo.
+ * @param todos The todos, in display order
+ * @param blockedIds Ids of todos waiting on an open blocker (see utils/dependencies)
+ * @returns The index, in the same order
+ */
+export function buildTodoIndex(todos: Todo[], blockedIds: Set<number>): IndexedTodo[] {
+  const today = getStartOfDay(new Date());
+  return todos.map((todo) => {
+    let text = lowercasedText.get(todo);
+    if (!text) {
+      text = { lowerText: todo.text.toLowerCase(), lowerNotes: todo.notes?.toLowerCase() ?? "" };
+      lowercasedText.set(todo, text);
+    }
+    return {
+      todo,
+      searchable: blockedIds.has(todo.id) ? { ...todo, isBlocked: true } : todo,
+      ...text,
+      dueBucket: getDueBucket(todo, today),
+    };
+  });
+}
+
+/**
+ * Applies a search and the list filters in a single pass over the index, counting
+ * matches for the filter buttons along the way.
+ * @param index The indexed todos, in display order
+ * @param query The parsed search query
+ * @param settings The list filters
+ * @param now The reference time for overdue checks
+ * @returns The matching todos (ranked for plain-word searches) and the counts
+ */
+export function filterTodoIndex(
+  index: IndexedTodo[],
+  query: ParsedQuery,
+  settings: TodoFilterSettings,
+  now: Date = new Date()
+): FilteredTodos {
+  const today = toLocalDateString(now);
+  const counts: TodoListCounts = {
+    status: { all: 0, active: 0, completed: 0 },
+    priority: { all: 0, high: 0, medium: 0, low: 0 },
+    dueDate: { all: 0, today: 0, overdue: 0, upcoming: 0 },
+  };
+  const matching: { todo: Todo; score: number }[] = [];
+
+  for (const entry of index) {
+    const { todo, dueBucket } = entry;
+    const score = scoreLowercasedTodo(
+      entry.searchable,
+      entry.lowerText,
+      entry.lowerNotes,
+      query,
+      today
+    );
+    if (score === 0) continue;
+
+    counts.status.all++;
+    counts.status[todo.completed ? "completed" : "active"]++;
+    counts.dueDate.all++;
+    if (dueBucket !== "none") counts.dueDate[dueBucket]++;
+    if (
+      matchesStatusFilter(todo, settings.filter) &&
+      (settings.categoryFilter === "all" || todo.category === settings.categoryFilter)
+    ) {
+      counts.priority.all++;
+      counts.priority[todo.priority]++;
+    }
+    if (matchesFilters(todo, settings, dueBucket)) matching.push({ todo, score });
+  }
+
+  // Plain-word searches are ranked by fuzzy relevance (sort is stable for ties)
+  if (!query.hasOperators && query.highlightTerms.length > 0) {
+    matching.sort((a, b) => b.score - a.score);
+  }
+  return { todos: matching.map((match) => match.todo), counts };
+}
+
+// Sorts by position in the manual order; todos not in it yet come first, newest first
+export function sortByManualOrder(todos: Todo[], order: number[]): Todo[] {
+  const orderMap = new Map<number, number>();
+  order.forEach((id, index) => orderMap.set(id, index));
+
+  return [...todos].sort((a, b) => {
+    const aInOrder = orderMap.has(a.id);
+    const bInOrder = orderMap.has(b.id);
+    if (!aInOrder && !bInOrder) return b.id - a.id;
+    if (!aInOrder) return -1;
+    if (!bInOrder) return 1;
+    return orderMap.get(a.id)! - orderMap.get(b.id)!;
+  });
+}
+
+const SORT_LABELS: Record<SortType, string | null> = {
+  manual: null,
+  priority: "by priority",
+  dueDate: "by due date",
+  created: "newest first",
+  dependency: "in dependency order",
+};
+
+// Suggests a view name such as "Work – overdue – by priority"
+export function describeViewSettings(
+  settings: TodoViewSettings,
+  getCategory: (id: string) => { name: string } | undefined
+): string {
+  const parts: string[] = [];
+  if (settings.categoryFilter !== "all") {
+    parts.push(getCategory(settings.categoryFilter)?.name ?? settings.categoryFilter);
+  }
+  if (settings.filter !== "all") parts.push(settings.filter);
+  if (settings.dueDateFilter === "today") parts.push("due today");
+  else if (settings.dueDateFilter !== "all") parts.push(settings.dueDateFilter);
+  if (settings.priorityFilter === "medium-plus") parts.push("medium+");
+  else if (settings.priorityFilter !== "all") parts.push("high priority");
+  if (settings.tagFilter.length > 0) {
+    parts.push(settings.tagFilter.map((tag) => `#${tag}`).join(settings.tagMatch === "all" ? " + " : " / "));
+  }
+  if (settings.searchQuery.trim()) parts.push(`"${settings.searchQuery.trim()}"`);
+  const sortLabel = SORT_LABELS[settings.sortBy];
+  if (sortLabel) parts.push(sortLabel);
+  return parts.length > 0 ? parts.join(" – ") : "All todos";
+}
@@ -0,0 +1,400 @@
+import { RecurrenceRule, getNextOccurrence } from "./utils/recurrence";
+import { toLocalDateString } from "./utils/date";
+import { trackChanges } from "./todoActivity";
+
+// Id of an entry in the user's category registry (see CategoryContext)
+export type CategoryType = string;
+export type PriorityType = "high" | "medium" | "low";
+
+export interface Subtask {
+  id: number;
+  text: string;
+  completed: boolean;
+}
+
+// A logged field value, reduced to something small and comparable (see todoActivity)
+export type ActivityValue = string | number | boolean | string[] | number[] | null;
+
+export interface TodoActivity {
+  at: number;
+  field: string;
+  from: ActivityValue;
+  to: ActivityValue;
+}
+
+export interface Todo {
+  id: number;
+  text: string;
+  completed: boolean;
+  dueDate?: string; // ISO date string
+  category?: CategoryType;
+  listId?: string; // Id of the list it belongs to (see ListContext); missing means the default list
+  priority: PriorityType;
+  subtasks?: Subtask[];
+  autoCompleteParent?: boolean; // Complete the todo once every subtask is done
+  recurrence?: RecurrenceRule;
+  tags?: string[]; // Free-form, normalized with normalizeTag
+  dueTime?: string; // HH:MM, local time; only meaningful with a dueDate
+  reminders?: number[]; // Minutes before the due time to remind
+  notes?: string; // Markdown
+  deletedAt?: number; // When it was moved to the trash
+  archivedAt?: number; // When it was archived
+  blockedBy?: number[]; // Ids of todos that have to be completed first
+  createdAt?: number;
+  updatedAt?: number; // Last change to a tracked field
+  completedAt?: number; // Cleared when the todo is reopened
+  activity?: TodoActivity[]; // Append-only log of field changes, oldest first
+}
+
+export interface TodoSnapshot {
+  todos: Todo[];
+  order: number[];
+}
+
+export interface TodoHistoryState {
+  past: TodoSnapshot[];
+  present: TodoSnapshot;
+  future: TodoSnapshot[];
+  lastChange: number; // seq of the action that last changed the present
+}
+
+export type TodoAction =
+  | { type: "add"; todo: Todo }
+  | { type: "toggle"; id: number; spawn?: Todo; order?: number[] }
+  | { type: "delete"; id: number }
+  | { type: "update"; id: number; changes: Partial<Omit<Todo, "id">> }
+  | {
+      type: "updateMany";
+      ids: number[];
+      changes: Partial<Omit<Todo, "id">>;
+      spawns?: Record<number, Todo>; // Next occurrences keyed by the completed todo's id
+    }
+  | { type: "deleteMany"; ids: number[] }
+  | { type: "archive"; ids: number[] }
+  | { type: "restore"; ids: number[] }
+  | { type: "purge"; ids: number[] }
+  | { type: "expireTrash"; before: number }
+  | { type: "reorder"; order: number[] }
+  | { type: "move"; id: number; changes: Partial<Omit<Todo, "id">>; order: number[] }
+  | { type: "moveMany"; ids: number[]; changes: Partial<Omit<Todo, "id">>; order: number[] }
+  | { type: "replaceAll"; snapshot: TodoSnapshot }
+  | { type: "sync"; changes: Partial<TodoSnapshot> }
+  | { type: "addSubtask"; todoId: number; subtask: Subtask }
+  | { type: "toggleSubtask"; todoId: number; subtaskId: number }
+  | { type: "updateSubtask"; todoId: number; subtaskId: number; text: string }
+  | { type: "deleteSubtask"; todoId: number; subtaskId: number }
+  | { type: "moveSubtask"; todoId: number; fromIndex: number; toIndex: number }
+  | { type: "undo" }
+  | { type: "redo" };
+
+// Actions are stamped with when they happened, for timestamps and the activity log, and
+// a sequence number so a change can be told apart from any that came after it
+export type TimedTodoAction = TodoAction & { at: number; seq: number };
+
+// Maximum number of snapshots kept on the undo stack
+export const HISTORY_LIMIT = 50;
+
+function withTracking(previous: TodoSnapshot, next: TodoSnapshot, at: number): TodoSnapshot {
+  return next.todos === previous.todos
+    ? next
+    : { ...next, todos: trackChanges(previous.todos, next.todos, at) };
+}
+
+// Removes todos for good, along with their place in the manual order and links to them
+function removeTodos(snapshot: TodoSnapshot, ids: Set<number>): TodoSnapshot {
+  return {
+    todos: snapshot.todos
+      .filter((todo) => !ids.has(todo.id))
+      .map((todo) =>
+        todo.blockedBy?.some((id) => ids.has(id))
+          ? { ...todo, blockedBy: todo.blockedBy.filter((id) => !ids.has(id)) }
+          : todo
+      ),
+    order: snapshot.order.filter((id) => !ids.has(id)),
+  };
+}
+
+/**
+ * Checks whether a todo is in the trash or archive rather than the active list.
+ * @param todo The todo
+ * @returns True for trashed or archived todos
+ */
+export function isHiddenTodo(todo: Todo): boolean {
+  return todo.deletedAt !== undefined || todo.archivedAt !== undefined;
+}
+
+// Replaces a todo's subtasks, re-evaluating auto-completion of the parent
+function withSubtasks(todo: Todo, subtasks: Subtask[]): Todo {
+  const allDone = subtasks.length > 0 && subtasks.every((s) => s.completed);
+  return {
+    ...todo,
+    subtasks,
+    completed: todo.autoCompleteParent && allDone ? true : todo.completed,
+  };
+}
+
+// Deep equality for plain data; a missing key and one set to undefined count as the same
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return [...keys].every((key) => isSameValue(aRecord[key], bRecord[key]));
+}
+
+function isSameSnapshot(a: TodoSnapshot, b: TodoSnapshot): boolean {
+  return (
+    a.order.length === b.order.length &&
+    a.order.every((id, index) => id === b.order[index]) &&
+    a.todos.length === b.todos.length &&
+    a.todos.every((todo, index) => isSameValue(todo, b.todos[index]))
+  );
+}
+
+function mapTodo(todos: Todo[], id: number, fn: (todo: Todo) => Todo): Todo[] {
+  return todos.map((todo) => (todo.id === id ? fn(todo) : todo));
+}
+
+// Applies a single mutation to a snapshot; the reducer drops results equal to the input
+function applyAction(snapshot: TodoSnapshot, action: TimedTodoAction): TodoSnapshot {
+  switch (action.type) {
+    case "add":
+      return { ...snapshot, todos: [...snapshot.todos, action.todo] };
+    case "toggle": {
+      const todos = snapshot.todos.map((todo) => {
+        if (todo.id !== action.id) return todo;
+        // The series continues on the spawned item, so completing again won't respawn
+        return action.spawn
+          ? { ...todo, completed: !todo.completed, recurrence: undefined }
+          : { ...todo, completed: !todo.completed };
+      });
+      return {
+        todos: action.spawn ? [...todos, action.spawn] : todos,
+        order: action.order ?? snapshot.order,
+      };
+    }
+    // Deleting moves todos to the trash; they keep their place in the order in case they're restored
+    case "delete":
+      return {
+        ...snapshot,
+        todos: mapTodo(snapshot.todos, action.id, (todo) => ({ ...todo, deletedAt: action.at })),
+      };
+    case "update":
+      return {
+        ...snapshot,
+        todos: mapTodo(snapshot.todos, action.id, (todo) => {
+          const updated = { ...todo, ...action.changes };
+          // Turning on auto-complete should immediately apply to finished checklists
+          return action.changes.autoCompleteParent && updated.subtasks
+            ? withSubtasks(updated, updated.subtasks)
+            : updated;
+        }),
+      };
+    case "updateMany": {
+      const ids = new Set(action.ids);
+      const spawns = action.spawns ?? {};
+      const todos = snapshot.todos.map((todo) => {
+        if (!ids.has(todo.id)) return todo;
+        const updated = { ...todo, ...action.changes };
+        return spawns[todo.id] ? { ...updated, recurrence: undefined } : updated;
+      });
+      return { ...snapshot, todos: [...todos, ...Object.values(spawns)] };
+    }
+    case "deleteMany": {
+      const ids = new Set(action.ids);
+      return {
+        ...snapshot,
+        todos: snapshot.todos.map((todo) =>
+          ids.has(todo.id) ? { ...todo, deletedAt: action.at } : todo
+        ),
+      };
+    }
+    case "archive": {
+      const ids = new Set(action.ids);
+      return {
+        ...snapshot,
+        todos: snapshot.todos.map((todo) =>
+          ids.has(todo.id) ? { ...todo, archivedAt: action.at } : todo
+        ),
+      };
+    }
+    case "restore": {
+      const ids = new Set(action.ids);
+      return {
+        ...snapshot,
+        todos: snapshot.todos.map((todo) =>
+          ids.has(todo.id) ? { ...todo, deletedAt: undefined, archivedAt: undefined } : todo
+        ),
+      };
+    }
+    case "purge":
+      return removeTodos(snapshot, new Set(action.ids));
+    case "reorder":
+      return { ...snapshot, order: action.order };
+    // Updates a todo and its place in the manual order as one undo step (e.g. a board drag)
+    case "move":
+      return {
+        todos: mapTodo(snapshot.todos, action.id, (todo) => ({ ...todo, ...action.changes })),
+        order: action.order,
+      };
+    case "moveMany": {
+      const ids = new Set(action.ids);
+      return {
+        todos: snapshot.todos.map((todo) =>
+          ids.has(todo.id) ? { ...todo, ...action.changes } : todo
+        ),
+        order: action.order,
+      };
+    }
+    case "replaceAll":
+      return action.snapshot;
+    case "addSubtask":
+      return {
+        ...snapshot,
+        todos: mapTodo(snapshot.todos, action.todoId, (todo) =>
+          withSubtasks(todo, [...(todo.subtasks ?? []), action.subtask])
+        ),
+      };
+    case "toggleSubtask":
+      return {
+        ...snapshot,
+        todos: mapTodo(snapshot.todos, action.todoId, (todo) =>
+          withSubtasks(
+            todo,
+            (todo.subtasks ?? []).map((s) =>
+              s.id === action.subtaskId ? { ...s, completed: !s.completed } : s
+            )
+          )
+        ),
+      };
+    case "updateSubtask":
+      return {
+        ...snapshot,
+        todos: mapTodo(snapshot.todos, action.todoId, (todo) => ({
+          ...todo,
+          subtasks: (todo.subtasks ?? []).map((s) =>
+            s.id === action.subtaskId ? { ...s, text: action.text } : s
+          ),
+        })),
+      };
+    case "deleteSubtask":
+      return {
+        ...snapshot,
+        todos: mapTodo(snapshot.todos, action.todoId, (todo) =>
+          withSubtasks(
+            todo,
+            (todo.subtasks ?? []).filter((s) => s.id !== action.subtaskId)
+          )
+        ),
+      };
+    case "moveSubtask":
+      return {
+        ...snapshot,
+        todos: mapTodo(snapshot.todos, action.todoId, (todo) => {
+          const subtasks = [...(todo.subtasks ?? [])];
+          const [moved] = subtasks.splice(action.fromIndex, 1);
+          if (!moved) return todo;
+          subtasks.splice(action.toIndex, 0, moved);
+          return { ...todo, subtasks };
+        }),
+      };
+    default:
+      return snapshot;
+  }
+}
+
+export function todoReducer(state: TodoHistoryState, action: TimedTodoAction): TodoHistoryState {
+  const next = reduceHistory(state, action);
+  return next === state ? state : { ...next, lastChange: action.seq };
+}
+
+function reduceHistory(state: TodoHistoryState, action: TimedTodoAction): TodoHistoryState {
+  switch (action.type) {
+    case "undo": {
+      if (state.past.length === 0) return state;
+      const previous = state.past[state.past.length - 1];
+      return {
+        ...state,
+        past: state.past.slice(0, -1),
+        present: withTracking(state.present, previous, action.at),
+        future: [state.present, ...state.future],
+      };
+    }
+    case "redo": {
+      if (state.future.length === 0) return state;
+      const [next, ...rest] = state.future;
+      return {
+        ...state,
+        past: [...state.past, state.present],
+        present: withTracking(state.present, next, action.at),
+        future: rest,
+      };
+    }
+    case "sync": {
+      // Changes from another tab replace the present without becoming an undo step. The
+      // history is dropped: restoring a snapshot from before them would overwrite that tab's edits
+      const present = { ...state.present, ...action.changes };
+      if (isSameSnapshot(state.present, present)) return state;
+      return { ...state, past: [], present, future: [] };
+    }
+    case "expireTrash": {
+      // Automatic clean-up, so it isn't an undo step either
+      const expired = new Set(
+        state.present.todos
+          .filter((todo) => todo.deletedAt !== undefined && todo.deletedAt < action.before)
+          .map((todo) => todo.id)
+      );
+      if (expired.size === 0) return state;
+      // Gone from the history too, so undo can't bring them back
+      return {
+        ...state,
+        past: state.past.map((snapshot) => removeTodos(snapshot, expired)),
+        present: removeTodos(state.present, expired),
+        future: state.future.map((snapshot) => removeTodos(snapshot, expired)),
+      };
+    }
+    default: {
+      const applied = applyAction(state.present, action);
+      // No-op changes (e.g. saving an unchanged edit) shouldn't take up an undo step
+      if (applied === state.present || isSameSnapshot(state.present, applied)) return state;
+      const present = withTracking(state.present, applied, action.at);
+      return {
+        ...state,
+        past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+        present,
+        future: [],
+      };
+    }
+  }
+}
+
+/**
+ * Builds the next occurrence of a recurring todo that is about to be completed.
+ * Returns undefined when the todo doesn't recur or its series has ended.
+ */
+export function createNextOccurrence(todo: Todo, id: number): Todo | undefined {
+  if (!todo.recurrence || todo.completed) return undefined;
+  const baseDate = todo.dueDate ?? toLocalDateString(new Date());
+  const nextDueDate = getNextOccurrence(todo.recurrence, baseDate);
+  if (!nextDueDate) return undefined;
+
+  return {
+    ...todo,
+    id,
+    completed: false,
+    dueDate: nextDueDate,
+    subtasks: todo.subtasks?.map((s) => ({ ...s, completed: false })),
+    recurrence: { ...todo.recurrence, occurrence: todo.recurrence.occurrence + 1 },
+    // A fresh todo, so it starts its own history
+    createdAt: undefined,
+    updatedAt: undefined,
+    completedAt: undefined,
+    activity: undefined,
+  };
+}
+
+export function createInitialHistory(snapshot: TodoSnapshot): TodoHistoryState {
+  return { past: [], present: snapshot, future: [], lastChange: 0 };
+}
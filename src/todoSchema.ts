@@ -0,0 +1,195 @@
+import { ActivityValue, PriorityType, Subtask, Todo, TodoActivity } from "./todoReducer";
+import { RecurrenceRule } from "./utils/recurrence";
+import { StorageSchema, validateRecords } from "./utils/storage";
+
+const PRIORITY_VALUES: PriorityType[] = ["high", "medium", "low"];
+const FREQUENCY_VALUES = ["daily", "weekly", "monthly"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isId(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function validateSubtask(raw: unknown): Subtask | null {
+  if (!isRecord(raw) || !isId(raw.id) || typeof raw.text !== "string") return null;
+  return { id: raw.id, text: raw.text, completed: raw.completed === true };
+}
+
+function isIntegerIn(value: unknown, min: number, max = Infinity): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function isWeekday(value: unknown): value is number {
+  return isIntegerIn(value, 0, 6);
+}
+
+/**
+ * Checks a stored or imported recurrence rule field by field.
+ * @param raw The rule as read
+ * @returns A clean copy of the rule, or undefined when any field is invalid
+ */
+export function validateRecurrence(raw: unknown): RecurrenceRule | undefined {
+  if (
+    !isRecord(raw) ||
+    !FREQUENCY_VALUES.includes(raw.frequency as string) ||
+    !isIntegerIn(raw.interval, 1) ||
+    (raw.occurrence !== undefined && !isIntegerIn(raw.occurrence, 1)) ||
+    (raw.weekdays !== undefined &&
+      !(Array.isArray(raw.weekdays) && raw.weekdays.every(isWeekday))) ||
+    (raw.monthDay !== undefined && !isIntegerIn(raw.monthDay, 1, 31)) ||
+    (raw.monthWeek !== undefined && raw.monthWeek !== -1 && !isIntegerIn(raw.monthWeek, 1, 4)) ||
+    (raw.monthWeekday !== undefined && !isWeekday(raw.monthWeekday)) ||
+    (raw.endDate !== undefined &&
+      !(typeof raw.endDate === "string" && DATE_PATTERN.test(raw.endDate))) ||
+    (raw.count !== undefined && !isIntegerIn(raw.count, 1))
+  ) {
+    return undefined;
+  }
+  return {
+    frequency: raw.frequency as RecurrenceRule["frequency"],
+    interval: raw.interval,
+    ...(raw.weekdays !== undefined && { weekdays: [...new Set(raw.weekdays as number[])] }),
+    ...(raw.monthDay !== undefined && { monthDay: raw.monthDay }),
+    // The nth-weekday form only makes sense with both halves
+    ...(raw.monthWeek !== undefined &&
+      raw.monthWeekday !== undefined && {
+        monthWeek: raw.monthWeek as number,
+        monthWeekday: raw.monthWeekday,
+      }),
+    ...(raw.endDate !== undefined && { endDate: raw.endDate }),
+    ...(raw.count !== undefined && { count: raw.count }),
+    occurrence: (raw.occurrence as number | undefined) ?? 1,
+  };
+}
+
+function isActivityValue(value: unknown): value is ActivityValue {
+  return (
+    value === null ||
+    ["string", "number", "boolean"].includes(typeof value) ||
+    (Array.isArray(value) && value.every((v) => typeof v === "string" || typeof v === "number"))
+  );
+}
+
+function validateActivity(raw: unknown): TodoActivity | null {
+  if (
+    !isRecord(raw) ||
+    !isId(raw.at) ||
+    typeof raw.field !== "string" ||
+    !isActivityValue(raw.from) ||
+    !isActivityValue(raw.to)
+  ) {
+    return null;
+  }
+  return { at: raw.at, field: raw.field, from: raw.from, to: raw.to };
+}
+
+/**
+ * Checks a stored todo, keeping it when the required fields are intact.
+ * Malformed optional fields are dropped rather than discarding the todo.
+ * @param raw The stored record
+ * @returns The cleaned todo, or null when it can't be recovered
+ */
+export function validateTodo(raw: unknown): Todo | null {
+  if (
+    !isRecord(raw) ||
+    !isId(raw.id) ||
+    typeof raw.text !== "string" ||
+    typeof raw.completed !== "boolean" ||
+    !PRIORITY_VALUES.includes(raw.priority as PriorityType)
+  ) {
+    return null;
+  }
+
+  const todo: Todo = {
+    id: raw.id,
+    text: raw.text,
+    completed: raw.completed,
+    priority: raw.priority as PriorityType,
+  };
+  if (typeof raw.dueDate === "string" && DATE_PATTERN.test(raw.dueDate)) {
+    todo.dueDate = raw.dueDate;
+  }
+  if (typeof raw.category === "string" && raw.category) todo.category = raw.category;
+  if (typeof raw.listId === "string" && raw.listId) todo.listId = raw.listId;
+  if (Array.isArray(raw.subtasks)) {
+    todo.subtasks = raw.subtasks
+      .map(validateSubtask)
+      .filter((s): s is Subtask => s !== null);
+  }
+  if (raw.autoCompleteParent === true) todo.autoCompleteParent = true;
+  const recurrence = validateRecurrence(raw.recurrence);
+  if (recurrence) todo.recurrence = recurrence;
+  if (Array.isArray(raw.tags)) {
+    const tags = raw.tags.filter((tag): tag is string => typeof tag === "string" && tag !== "");
+    if (tags.length > 0) todo.tags = tags;
+  }
+  if (typeof raw.dueTime === "string" && /^\d{2}:\d{2}$/.test(raw.dueTime)) {
+    todo.dueTime = raw.dueTime;
+  }
+  if (Array.isArray(raw.reminders)) {
+    const reminders = raw.reminders.filter(
+      (offset): offset is number => typeof offset === "number" && Number.isFinite(offset) && offset >= 0
+    );
+    if (reminders.length > 0) todo.reminders = reminders;
+  }
+  if (typeof raw.notes === "string" && raw.notes) todo.notes = raw.notes;
+  if (isId(raw.deletedAt)) todo.deletedAt = raw.deletedAt;
+  if (isId(raw.archivedAt)) todo.archivedAt = raw.archivedAt;
+  if (Array.isArray(raw.blockedBy)) {
+    const blockedBy = raw.blockedBy.filter(isId);
+    if (blockedBy.length > 0) todo.blockedBy = blockedBy;
+  }
+  if (isId(raw.createdAt)) todo.createdAt = raw.createdAt;
+  if (isId(raw.updatedAt)) todo.updatedAt = raw.updatedAt;
+  if (isId(raw.completedAt)) todo.completedAt = raw.completedAt;
+  if (Array.isArray(raw.activity)) {
+    todo.activity = raw.activity
+      .map(validateActivity)
+      .filter((entry): entry is TodoActivity => entry !== null);
+  }
+  return todo;
+}
+
+export const todosSchema: StorageSchema<Todo[]> = {
+  key: "todos",
+  migrations: [
+    // v0 → v1: todos saved before priorities existed default to low
+    (data) =>
+      Array.isArray(data)
+        ? data.map((todo) => (isRecord(todo) ? { ...todo, priority: todo.priority || "low" } : todo))
+        : data,
+    // v1 → v2: ids are creation times (Date.now()), so they become createdAt
+    (data) =>
+      Array.isArray(data)
+        ? data.map((todo) =>
+            isRecord(todo) && todo.createdAt === undefined ? { ...todo, createdAt: todo.id } : todo
+          )
+        : data,
+  ],
+  validate: (data) => validateRecords(data, validateTodo),
+  fallback: () => [],
+};
+
+// How many days trashed todos are kept; 0 keeps them until the trash is emptied
+export const TRASH_RETENTION_OPTIONS = [0, 1, 7, 30, 90];
+
+export const trashRetentionSchema: StorageSchema<number> = {
+  key: "todo-trash-retention",
+  migrations: [(data) => data],
+  validate: (data) =>
+    TRASH_RETENTION_OPTIONS.includes(data as number) ? { value: data as number, invalid: 0 } : null,
+  fallback: () => 30,
+};
+
+export const todoOrderSchema: StorageSchema<number[]> = {
+  key: "todo-order",
+  migrations: [(data) => data],
+  validate: (data) => validateRecords(data, (id) => (isId(id) ? id : null)),
+  fallback: () => [],
+};
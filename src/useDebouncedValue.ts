@@ -0,0 +1,14 @@
+import { useState, useEffect } from "react";
+
+// A value that only catches up once it has stopped changing for `delay` ms; a delay of 0 passes it straight through
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    if (delay <= 0) return;
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return delay <= 0 ? value : debounced;
+}
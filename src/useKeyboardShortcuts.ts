@@ -3,6 +3,9 @@ import { useEffect, useCallback, useRef } from "react";
 export interface KeyboardShortcut {
   key: string;
   ctrlOrCmd?: boolean;
+  shift?: boolean;
+  // Leave ctrl/cmd shortcuts to the browser while typing (e.g. native text undo)
+  skipInInputs?: boolean;
   description: string;
   action: () => void;
 }
@@ -40,10 +43,12 @@ export function useKeyboardShortcuts({
       for (const shortcut of shortcutsRef.current) {
         const keyMatch = event.key.toLowerCase() === shortcut.key.toLowerCase();
         const ctrlOrCmdMatch = shortcut.ctrlOrCmd ? ctrlOrCmd : !ctrlOrCmd && !event.metaKey && !event.ctrlKey;
+        // Shift is part of the key itself for shortcuts like "?", so only enforce it with ctrl/cmd
+        const shiftMatch = shortcut.ctrlOrCmd ? !!shortcut.shift === event.shiftKey : true;
 
-        if (keyMatch && ctrlOrCmdMatch) {
+        if (keyMatch && ctrlOrCmdMatch && shiftMatch) {
           // For shortcuts that don't require ctrl/cmd, skip if user is typing in input
-          if (!shortcut.ctrlOrCmd && isInputElement(event.target)) {
+          if ((!shortcut.ctrlOrCmd || shortcut.skipInInputs) && isInputElement(event.target)) {
             continue;
           }
 
@@ -69,7 +74,8 @@ export function formatShortcutKey(shortcut: KeyboardShortcut): string {
   const modifier = isMac ? "Cmd" : "Ctrl";
 
   if (shortcut.ctrlOrCmd) {
-    return `${modifier}+${shortcut.key.toUpperCase()}`;
+    const shift = shortcut.shift ? "Shift+" : "";
+    return `${modifier}+${shift}${shortcut.key.toUpperCase()}`;
   }
   return shortcut.key === "Escape" ? "Esc" : shortcut.key;
 }
@@ -0,0 +1,15 @@
+import { useState, useEffect } from "react";
+import { StorageSchema, loadPersisted, savePersisted, subscribePersisted } from "./utils/storage";
+
+// State that is loaded from, saved to and kept in sync across tabs through a storage schema
+export function usePersistedState<T>(schema: StorageSchema<T>) {
+  const [value, setValue] = useState<T>(() => loadPersisted(schema));
+
+  useEffect(() => {
+    savePersisted(schema, value);
+  }, [schema, value]);
+
+  useEffect(() => subscribePersisted(schema, setValue), [schema]);
+
+  return [value, setValue] as const;
+}
@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useTodos } from "./TodoContext";
+import { useToast } from "./ToastContext";
+import { usePersistedState } from "./usePersistedState";
+import { DueReminder, describeReminder, getReminders } from "./utils/reminders";
+import { StorageSchema, validateRecords } from "./utils/storage";
+
+// Re-check at least this often so sleep/clock changes can't strand a reminder
+const MAX_TIMER_DELAY = 60_000;
+// Reminders this late are reported as missed rather than fired as usual
+const MISSED_AFTER = 2 * 60_000;
+// Beyond this many missed reminders, a single summary toast is shown
+const MISSED_TOAST_LIMIT = 3;
+
+const firedRemindersSchema: StorageSchema<string[]> = {
+  key: "todo-reminders-fired",
+  migrations: [(data) => data],
+  validate: (data) => validateRecords(data, (key) => (typeof key === "string" ? key : null)),
+  fallback: () => [],
+};
+
+function showNotification(reminder: DueReminder) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  new Notification(reminder.text, {
+    body: reminder.offset === 0 ? "Due now" : `Due in ${describeReminder(reminder.offset).replace(" before", "")}`,
+    tag: reminder.key,
+  });
+}
+
+// Fires todo reminders as toasts (and browser notifications when allowed), catching up on missed ones
+export function useReminders() {
+  const { todos } = useTodos();
+  const { addToast } = useToast();
+  const [fired, setFired] = usePersistedState(firedRemindersSchema);
+  const [tick, setTick] = useState(0);
+  // Guards against firing twice before the persisted list catches up
+  const firedThisSession = useRef(new Set<string>());
+
+  const reminders = useMemo(() => getReminders(todos), [todos]);
+
+  useEffect(() => {
+    const now = Date.now();
+    const alreadyFired = new Set([...fired, ...firedThisSession.current]);
+    const due = reminders.filter((r) => r.fireAt <= now && !alreadyFired.has(r.key));
+
+    if (due.length > 0) {
+      due.forEach((r) => firedThisSession.current.add(r.key));
+      const missed = due.filter((r) => now - r.fireAt > MISSED_AFTER);
+      const onTime = due.filter((r) => now - r.fireAt <= MISSED_AFTER);
+
+      onTime.forEach((r) => {
+        addToast(`⏰ ${r.text} — ${describeReminder(r.offset).toLowerCase()}`, "info");
+        showNotification(r);
+      });
+      if (missed.length > MISSED_TOAST_LIMIT) {
+        addToast(`⏰ ${missed.length} reminders were missed while you were away`, "info");
+      } else {
+        missed.forEach((r) => addToast(`⏰ Missed reminder: ${r.text}`, "info"));
+      }
+
+      const todoIds = new Set(todos.map((t) => String(t.id)));
+      setFired((prev) => [
+        // Forget reminders of deleted todos so the list doesn't grow forever
+        ...prev.filter((key) => todoIds.has(key.split(":")[0])),
+        ...due.map((r) => r.key),
+      ]);
+    }
+
+    const next = reminders.find((r) => r.fireAt > now && !alreadyFired.has(r.key));
+    const delay = next ? Math.min(next.fireAt - now, MAX_TIMER_DELAY) : MAX_TIMER_DELAY;
+    const timer = setTimeout(() => setTick((t) => t + 1), delay);
+    return () => clearTimeout(timer);
+  }, [reminders, fired, tick, todos, addToast, setFired]);
+}
@@ -0,0 +1,95 @@
+import { useCallback } from "react";
+import { TodoViewSettings } from "./todoFilters";
+import { usePersistedState } from "./usePersistedState";
+import { StorageSchema, validateRecords } from "./utils/storage";
+
+export interface SavedView {
+  id: number;
+  name: string;
+  pinned: boolean;
+  settings: TodoViewSettings;
+}
+
+function validateView(raw: unknown): SavedView | null {
+  const view = raw as Partial<SavedView> | null;
+  const settings = view?.settings;
+  if (
+    typeof view?.id !== "number" ||
+    typeof view.name !== "string" ||
+    typeof settings !== "object" ||
+    settings === null ||
+    typeof settings.searchQuery !== "string" ||
+    !Array.isArray(settings.tagFilter)
+  ) {
+    return null;
+  }
+  return { id: view.id, name: view.name, pinned: view.pinned === true, settings };
+}
+
+const savedViewsSchema: StorageSchema<SavedView[]> = {
+  key: "todo-saved-views",
+  migrations: [
+    (data) => data,
+    // v1 → v2: views saved before tag filters match every tag
+    (data) =>
+      Array.isArray(data)
+        ? data.map((view) =>
+            view?.settings
+              ? { ...view, settings: { tagFilter: [], tagMatch: "any", ...view.settings } }
+              : view
+          )
+        : data,
+  ],
+  validate: (data) => validateRecords(data, validateView),
+  fallback: () => [],
+};
+
+export function useSavedViews() {
+  const [views, setViews] = usePersistedState(savedViewsSchema);
+
+  const saveView = useCallback((name: string, settings: TodoViewSettings) => {
+    const view: SavedView = { id: Date.now(), name, pinned: true, settings };
+    setViews((prev) => [...prev, view]);
+    return view;
+  }, []);
+
+  const renameView = useCallback((id: number, name: string) => {
+    setViews((prev) => prev.map((v) => (v.id === id ? { ...v, name } : v)));
+  }, []);
+
+  const deleteView = useCallback((id: number) => {
+    setViews((prev) => prev.filter((v) => v.id !== id));
+  }, []);
+
+  const togglePin = useCallback((id: number) => {
+    setViews((prev) => prev.map((v) => (v.id === id ? { ...v, pinned: !v.pinned } : v)));
+  }, []);
+
+  // Moves a view one step up (-1) or down (1) in the tab order
+  const moveView = useCallback((id: number, direction: -1 | 1) => {
+    setViews((prev) => {
+      const index = prev.findIndex((v) => v.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  return { views, saveView, renameView, deleteView, togglePin, moveView };
+}
+
+// Views match when every filter, the sort and the search text are the same
+export function isSameViewSettings(a: TodoViewSettings, b: TodoViewSettings): boolean {
+  return (
+    a.filter === b.filter &&
+    a.dueDateFilter === b.dueDateFilter &&
+    a.categoryFilter === b.categoryFilter &&
+    a.priorityFilter === b.priorityFilter &&
+    a.sortBy === b.sortBy &&
+    a.tagMatch === b.tagMatch &&
+    [...a.tagFilter].sort().join(" ") === [...b.tagFilter].sort().join(" ") &&
+    a.searchQuery.trim() === b.searchQuery.trim()
+  );
+}
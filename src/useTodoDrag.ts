@@ -0,0 +1,100 @@
+import { useState, useRef, useCallback } from "react";
+
+export type DropPosition = "before" | "after";
+
+/**
+ * Moves an id to just before or after another id in a manual order.
+ * Ids missing from the order are added first, so new todos can be placed too.
+ * @param order The current manual order
+ * @param movedId The id being moved
+ * @param targetId The id it was dropped on
+ * @param position Which side of the target it lands on
+ * @returns The new order
+ */
+export function moveInOrder(
+  order: number[],
+  movedId: number,
+  targetId: number,
+  position: DropPosition
+): number[] {
+  const result = order.filter((id) => id !== movedId);
+  if (!result.includes(targetId)) result.push(targetId);
+  const targetIndex = result.indexOf(targetId);
+  result.splice(position === "before" ? targetIndex : targetIndex + 1, 0, movedId);
+  return result;
+}
+
+// Drag state and handlers shared by every view that drags todos onto other todos
+export function useTodoDrag(
+  onDrop: (draggedId: number, targetId: number, position: DropPosition) => void
+) {
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+  const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
+  const draggedRef = useRef<number | null>(null);
+
+  const handleDragStart = useCallback((e: React.DragEvent, id: number) => {
+    setDraggedId(id);
+    draggedRef.current = id;
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", id.toString());
+    // Add slight delay for visual feedback to work properly
+    const el = e.target as HTMLElement;
+    requestAnimationFrame(() => el.classList.add("dragging"));
+  }, []);
+
+  const handleDragEnd = useCallback(() => {
+    setDraggedId(null);
+    setDropTargetId(null);
+    setDropPosition(null);
+    draggedRef.current = null;
+  }, []);
+
+  const handleDragOver = useCallback((e: React.DragEvent, id: number) => {
+    e.preventDefault();
+    // Keep an enclosing drop zone (e.g. a board column) from handling it too
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "move";
+
+    if (draggedRef.current === null || draggedRef.current === id) return;
+
+    // Determine drop position based on mouse position
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const midY = rect.top + rect.height / 2;
+    setDropTargetId(id);
+    setDropPosition(e.clientY < midY ? "before" : "after");
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    // Only clear if leaving the actual target, not children
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      setDropTargetId(null);
+      setDropPosition(null);
+    }
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent, targetId: number) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      const droppedId = parseInt(e.dataTransfer.getData("text/plain"), 10);
+      if (!isNaN(droppedId) && droppedId !== targetId) {
+        onDrop(droppedId, targetId, dropPosition ?? "after");
+      }
+      handleDragEnd();
+    },
+    [onDrop, dropPosition, handleDragEnd]
+  );
+
+  return {
+    draggedId,
+    dropTargetId,
+    dropPosition,
+    handleDragStart,
+    handleDragEnd,
+    handleDragOver,
+    handleDragLeave,
+    handleDrop,
+  };
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from "react";
+
+interface VirtualListOptions {
+  enabled: boolean;
+  estimateSize: number; // Height of a row that hasn't been measured yet, margin included
+  overscan: number; // Pixels rendered beyond each edge of the viewport
+  pinnedIds?: (number | null)[]; // Rows kept mounted while out of view, e.g. one being dragged
+}
+
+export interface VirtualRow<T> {
+  item: T;
+  index: number;
+}
+
+// Scroll positions are rounded to this fraction of the overscan, so scrolling re-renders in steps
+const SCROLL_STEP_RATIO = 0.5;
+
+// Index of the first row whose bottom edge is below `offset`
+function findRowAt(offsets: number[], offset: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= offset) low = mid + 1;
+    else high = mid;
+  }
+  return Math.max(0, low);
+}
+
+/**
+ * Windows a long list against the page scroll: only rows near the viewport are
+ * rendered and padding on the list stands in for the rest. Rows are measured as
+ * they render, so they can change height (e.g. when subtasks are expanded).
+ *
+ * Pinned rows stay mounted out of view, next to the rendered window, so a drag
+ * or a focused element survives scrolling away from its row.
+ */
+export function useVirtualList<T extends { id: number }>(items: T[], options: VirtualListOptions) {
+  const { enabled, estimateSize, overscan, pinnedIds = [] } = options;
+  const listRef = useRef<HTMLUListElement>(null);
+  const heights = useRef(new Map<number, number>());
+  const elementIds = useRef(new Map<Element, number>());
+  const refCallbacks = useRef(new Map<number, (el: HTMLElement | null) => void>());
+  const [measured, setMeasured] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0); // Viewport top relative to the list, in steps
+
+  const step = Math.max(1, Math.round(overscan * SCROLL_STEP_RATIO));
+
+  const updateScroll = useCallback(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const top = -list.getBoundingClientRect().top;
+    setScrollTop(Math.floor(top / step) * step);
+  }, [step]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let frame = 0;
+    const onScroll = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          updateScroll();
+        });
+      }
+    };
+    window.addEventListener("scroll", onScroll, { passive: true });
+    window.addEventListener("resize", onScroll);
+    return () => {
+      window.removeEventListener("scroll", onScroll);
+      window.removeEventListener("resize", onScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [enabled, updateScroll]);
+
+  // Filtering can move the list without any scrolling
+  useLayoutEffect(() => {
+    if (enabled) updateScroll();
+  }, [enabled, items, updateScroll]);
+
+  const observer = useMemo(() => {
+    if (typeof ResizeObserver === "undefined") return null;
+    return new ResizeObserver((entries) => {
+      let changed = false;
+      entries.forEach((entry) => {
+        const id = elementIds.current.get(entry.target);
+        const el = entry.target as HTMLElement;
+        if (id === undefined || !el.isConnected) return;
+        const height = el.offsetHeight + parseFloat(getComputedStyle(el).marginBottom || "0");
+        if (heights.current.get(id) !== height) {
+          heights.current.set(id, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasured((m) => m + 1);
+    });
+  }, []);
+
+  // A stable ref per row, so rows aren't re-observed on every render; unmounting unobserves
+  const measureRef = useCallback(
+    (id: number) => {
+      if (!enabled) return undefined;
+      let callback = refCallbacks.current.get(id);
+      if (!callback) {
+        let current: HTMLElement | null = null;
+        callback = (el: HTMLElement | null) => {
+          if (current) {
+            observer?.unobserve(current);
+            elementIds.current.delete(current);
+          }
+          current = el;
+          if (el) {
+            elementIds.current.set(el, id);
+            observer?.observe(el);
+          }
+        };
+        refCallbacks.current.set(id, callback);
+      }
+      return callback;
+    },
+    [enabled, observer]
+  );
+
+  // offsets[i] is the top of row i and the last entry is the total height.
+  // `measured` stands in for the heights map changing.
+  const offsets = useMemo(() => {
+    const result = [0];
+    items.forEach((item, i) => {
+      result.push(result[i] + (heights.current.get(item.id) ?? estimateSize));
+    });
+    return result;
+  }, [items, estimateSize, measured]);
+
+  if (!enabled || items.length === 0) {
+    return {
+      listRef,
+      rows: items.map((item, index) => ({ item, index })),
+      paddingTop: 0,
+      paddingBottom: 0,
+      measureRef,
+    };
+  }
+
+  const start = findRowAt(offsets, scrollTop - overscan);
+  const end = findRowAt(offsets, scrollTop + window.innerHeight + step + overscan);
+  const rowHeight = (index: number) => offsets[index + 1] - offsets[index];
+
+  const pinnedIndexes = [...new Set(pinnedIds)]
+    .filter((id): id is number => id !== null)
+    .map((id) => items.findIndex((item) => item.id === id))
+    .filter((index) => index !== -1 && (index < start || index > end))
+    .sort((a, b) => a - b);
+  const before = pinnedIndexes.filter((index) => index < start);
+  const after = pinnedIndexes.filter((index) => index > end);
+
+  const rows: VirtualRow<T>[] = [];
+  [...before, ...Array.from({ length: end - start + 1 }, (_, i) => start + i), ...after].forEach(
+    (index) => rows.push({ item: items[index], index })
+  );
+
+  // Pinned rows sit in the flow next to the window, so they take their height out of the padding
+  const pinnedHeight = (indexes: number[]) =>
+    indexes.reduce((total, index) => total + rowHeight(index), 0);
+
+  return {
+    listRef,
+    rows,
+    paddingTop: Math.max(0, offsets[start] - pinnedHeight(before)),
+    paddingBottom: Math.max(0, offsets[items.length] - offsets[end + 1] - pinnedHeight(after)),
+    measureRef,
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Picks black or white text, whichever reads better on a background color.
+ * @param hex The background as #rrggbb
+ * @returns "#ffffff" or "#111827"
+ */
+export function getContrastTextColor(hex: string): string {
+  const value = parseInt(hex.slice(1), 16);
+  const r = (value >> 16) & 0xff;
+  const g = (value >> 8) & 0xff;
+  const b = value & 0xff;
+  // Perceived brightness (ITU-R BT.601)
+  const brightness = (r * 299 + g * 587 + b * 114) / 1000;
+  return brightness > 150 ? "#111827" : "#ffffff";
+}
@@ -0,0 +1,53 @@
+/**
+ * Formats a date as a local YYYY-MM-DD string (not UTC, unlike toISOString).
+ * @param date The date to format
+ * @returns The date portion in the local timezone
+ */
+export function toLocalDateString(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD string as midnight in the local timezone.
+ * @param dateString The date string to parse
+ * @returns A Date at local midnight of that day
+ */
+export function parseLocalDate(dateString: string): Date {
+  const [year, month, day] = dateString.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Returns a copy of the date moved by a number of days.
+ * @param date The starting date
+ * @param days Days to add (may be negative)
+ * @returns The shifted date
+ */
+export function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+/**
+ * Returns a copy of the date at local midnight.
+ * @param date The date to truncate
+ * @returns The start of that day in the local timezone
+ */
+export function getStartOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+/**
+ * Checks whether a date falls on the current local day.
+ * @param date The date to check
+ * @returns True when the date is today
+ */
+export function isToday(date: Date): boolean {
+  return getStartOfDay(date).getTime() === getStartOfDay(new Date()).getTime();
+}
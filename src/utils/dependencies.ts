@@ -0,0 +1,98 @@
+import type { Todo } from "../todoReducer";
+
+/**
+ * Lists the blockers of a todo that are still open. Blockers that were completed,
+ * deleted or aren't in the given list no longer hold anything up.
+ * @param todo The todo to check
+ * @param todosById The todos that can block it, keyed by id
+ * @returns The open blockers, in the order they were added
+ */
+export function getOpenBlockers(todo: Todo, todosById: Map<number, Todo>): Todo[] {
+  return (todo.blockedBy ?? [])
+    .map((id) => todosById.get(id))
+    .filter((blocker): blocker is Todo => blocker !== undefined && !blocker.completed);
+}
+
+/**
+ * Collects the ids of todos that are waiting on at least one open blocker.
+ * @param todos The todos to check, which are also the possible blockers
+ * @returns The ids of blocked todos
+ */
+export function getBlockedIds(todos: Todo[]): Set<number> {
+  const todosById = new Map(todos.map((todo) => [todo.id, todo]));
+  return new Set(
+    todos
+      .filter((todo) => getOpenBlockers(todo, todosById).length > 0)
+      .map((todo) => todo.id)
+  );
+}
+
+/**
+ * Finds a chain of blocked-by links leading from one todo to another.
+ * @param todos All todos
+ * @param fromId Where the chain starts
+ * @param toId Where the chain should end
+ * @returns The ids along the chain, both ends included, or null when there is none
+ */
+export function findDependencyPath(todos: Todo[], fromId: number, toId: number): number[] | null {
+  const todosById = new Map(todos.map((todo) => [todo.id, todo]));
+  const visited = new Set<number>();
+
+  const visit = (id: number): number[] | null => {
+    if (id === toId) return [id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const blockerId of todosById.get(id)?.blockedBy ?? []) {
+      const path = visit(blockerId);
+      if (path) return [id, ...path];
+    }
+    return null;
+  };
+
+  return visit(fromId);
+}
+
+/**
+ * Checks that a todo can wait on another without creating a cycle.
+ * @param todos All todos
+ * @param todoId The todo that would be blocked
+ * @param blockerId The todo it would wait on
+ * @returns An explanation when the link isn't allowed, or null when it is
+ */
+export function validateBlocker(todos: Todo[], todoId: number, blockerId: number): string | null {
+  if (todoId === blockerId) return "A todo can't be blocked by itself";
+  // The new link closes a cycle when the blocker already waits on the todo, directly or not
+  const path = findDependencyPath(todos, blockerId, todoId);
+  if (!path) return null;
+  const names = [todoId, ...path].map((id) => `"${todos.find((t) => t.id === id)?.text ?? id}"`);
+  return `${names[1]} already waits on ${names[0]}, so this would create a cycle: ${names.join(" → ")}`;
+}
+
+/**
+ * Orders todos so prerequisites come before the todos waiting on them, keeping the
+ * given order wherever dependencies allow. Todos caught in a cycle keep their place.
+ * @param todos The todos in their current order
+ * @returns The todos in dependency order
+ */
+export function sortByDependencies(todos: Todo[]): Todo[] {
+  const ids = new Set(todos.map((todo) => todo.id));
+  const placed = new Set<number>();
+  const visiting = new Set<number>();
+  const todosById = new Map(todos.map((todo) => [todo.id, todo]));
+  const result: Todo[] = [];
+
+  // Depth-first: place a todo's blockers (those in this list) before the todo itself
+  const place = (todo: Todo) => {
+    if (placed.has(todo.id) || visiting.has(todo.id)) return;
+    visiting.add(todo.id);
+    (todo.blockedBy ?? []).forEach((id) => {
+      if (ids.has(id)) place(todosById.get(id)!);
+    });
+    visiting.delete(todo.id);
+    placed.add(todo.id);
+    result.push(todo);
+  };
+
+  todos.forEach(place);
+  return result;
+}
@@ -0,0 +1,202 @@
+/*
+ * Pomodoro focus timer. The timer is stored as timestamps rather than a
+ * countdown, so it keeps running across reloads: whatever phases ended while
+ * the page was closed are caught up the next time advanceFocusTimer runs.
+ */
+
+export type FocusPhase = "work" | "shortBreak" | "longBreak";
+
+export interface FocusSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number; // Work phases between long breaks
+}
+
+export interface FocusTimer {
+  todoId: number;
+  phase: FocusPhase;
+  phaseStartedAt: number; // Shifted forward by pauses, so the end is always start + length
+  segmentStart: number; // When the current stretch of uninterrupted work began
+  pausedAt?: number;
+  cycle: number; // Work phases completed so far
+}
+
+// A stretch of focused work on a todo
+export interface FocusSession {
+  todoId: number;
+  start: number;
+  end: number;
+  phaseStart?: number; // The work phase it finished, set when logged by the timer itself
+}
+
+export interface FocusAdvance {
+  timer: FocusTimer | null;
+  sessions: FocusSession[]; // Work to log
+  endedPhases: FocusPhase[];
+}
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+};
+
+export const FOCUS_PHASE_LABELS: Record<FocusPhase, string> = {
+  work: "Focus",
+  shortBreak: "Short break",
+  longBreak: "Long break",
+};
+
+/**
+ * Returns how long a phase lasts.
+ * @param phase The phase
+ * @param settings The configured lengths
+ * @returns The length in milliseconds
+ */
+export function getPhaseLength(phase: FocusPhase, settings: FocusSettings): number {
+  const minutes =
+    phase === "work"
+      ? settings.workMinutes
+      : phase === "shortBreak"
+        ? settings.shortBreakMinutes
+        : settings.longBreakMinutes;
+  return minutes * 60_000;
+}
+
+/**
+ * Returns the time left in the current phase.
+ * @param timer The timer
+ * @param settings The configured lengths
+ * @param now The current time
+ * @returns The remaining milliseconds, never negative
+ */
+export function getRemainingTime(timer: FocusTimer, settings: FocusSettings, now: number): number {
+  const endsAt = timer.phaseStartedAt + getPhaseLength(timer.phase, settings);
+  return Math.max(0, endsAt - (timer.pausedAt ?? now));
+}
+
+/**
+ * Starts a work phase on a todo.
+ * @param todoId The todo to focus on
+ * @param cycle Work phases already completed in this run
+ * @param now The current time
+ * @returns The running timer
+ */
+export function startFocusTimer(todoId: number, cycle: number, now: number): FocusTimer {
+  return { todoId, phase: "work", phaseStartedAt: now, segmentStart: now, cycle };
+}
+
+/**
+ * Pauses a running timer, ending the current stretch of work.
+ * @param timer The timer
+ * @param now The current time
+ * @returns The paused timer and the work to log, if any
+ */
+export function pauseFocusTimer(
+  timer: FocusTimer,
+  now: number
+): { timer: FocusTimer; session: FocusSession | null } {
+  if (timer.pausedAt !== undefined) return { timer, session: null };
+  const session =
+    timer.phase === "work" && now > timer.segmentStart
+      ? { todoId: timer.todoId, start: timer.segmentStart, end: now }
+      : null;
+  return { timer: { ...timer, pausedAt: now }, session };
+}
+
+/**
+ * Resumes a paused timer where it left off.
+ * @param timer The timer
+ * @param now The current time
+ * @returns The running timer
+ */
+export function resumeFocusTimer(timer: FocusTimer, now: number): FocusTimer {
+  if (timer.pausedAt === undefined) return timer;
+  const { pausedAt, ...running } = timer;
+  return { ...running, phaseStartedAt: timer.phaseStartedAt + (now - pausedAt), segmentStart: now };
+}
+
+/**
+ * Moves the timer past every phase that has ended. A finished work phase is logged
+ * and followed by a break; a finished break leaves the next work phase paused, so
+ * no work is counted while nobody is there.
+ * @param timer The timer
+ * @param settings The configured lengths
+ * @param now The current time
+ * @returns The updated timer, the work to log and the phases that ended
+ */
+export function advanceFocusTimer(
+  timer: FocusTimer | null,
+  settings: FocusSettings,
+  now: number
+): FocusAdvance {
+  const sessions: FocusSession[] = [];
+  const endedPhases: FocusPhase[] = [];
+  let current = timer;
+
+  while (current && current.pausedAt === undefined) {
+    const endsAt = current.phaseStartedAt + getPhaseLength(current.phase, settings);
+    if (endsAt > now) break;
+    endedPhases.push(current.phase);
+
+    if (current.phase === "work") {
+      sessions.push({
+        todoId: current.todoId,
+        start: current.segmentStart,
+        end: endsAt,
+        phaseStart: current.phaseStartedAt,
+      });
+      const cycle = current.cycle + 1;
+      current = {
+        ...current,
+        phase: cycle % settings.cyclesBeforeLongBreak === 0 ? "longBreak" : "shortBreak",
+        phaseStartedAt: endsAt,
+        segmentStart: endsAt,
+        cycle,
+      };
+    } else {
+      current = { ...startFocusTimer(current.todoId, current.cycle, endsAt), pausedAt: endsAt };
+    }
+  }
+
+  return { timer: current, sessions, endedPhases };
+}
+
+/**
+ * Adds up logged focus time per todo.
+ * @param sessions The logged sessions
+ * @returns Milliseconds keyed by todo id
+ */
+export function getTrackedTimeByTodo(sessions: FocusSession[]): Map<number, number> {
+  const totals = new Map<number, number>();
+  sessions.forEach((session) => {
+    totals.set(session.todoId, (totals.get(session.todoId) ?? 0) + session.end - session.start);
+  });
+  return totals;
+}
+
+/**
+ * Formats tracked time, e.g. "1h 05m", "25m" or "<1m".
+ * @param ms The time in milliseconds
+ * @returns A short, readable string
+ */
+export function formatTrackedTime(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60_000);
+  if (totalMinutes < 1) return "<1m";
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, "0")}m` : `${minutes}m`;
+}
+
+/**
+ * Formats a countdown as M:SS.
+ * @param ms The time left in milliseconds
+ * @returns The countdown, e.g. "24:59"
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, "0")}`;
+}
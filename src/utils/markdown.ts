@@ -0,0 +1,156 @@
+/*
+ * A small Markdown parser for todo notes. It produces a tree rather than HTML,
+ * so rendering never goes through innerHTML and raw HTML in notes stays text.
+ *
+ * Supported: paragraphs, # headings, - / * / 1. lists, > quotes, ``` code blocks,
+ * `code`, **bold**, *italic*, [links](https://…) and bare URLs.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "code"; text: string };
+
+// Only these link targets are rendered as links; anything else (javascript:, data:…) stays text
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+/**
+ * Checks a link target is safe to render.
+ * @param href The link target
+ * @returns True for http(s) and mailto links
+ */
+export function isSafeUrl(href: string): boolean {
+  return SAFE_URL.test(href.trim());
+}
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s][^*]*?)\*|_([^_\s][^_]*?)_|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]+[^\s<.,;:!?)])/;
+
+/**
+ * Parses inline Markdown: code, bold, italic, links and bare URLs.
+ * @param text The text of one block
+ * @returns The inline nodes
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ type: "text", text: rest.slice(0, match.index) });
+
+    const [whole, code, strong, em, emUnderscore, linkText, href, url] = match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (strong !== undefined) {
+      nodes.push({ type: "strong", children: parseInline(strong) });
+    } else if (em !== undefined || emUnderscore !== undefined) {
+      nodes.push({ type: "em", children: parseInline(em ?? emUnderscore) });
+    } else if (linkText !== undefined) {
+      nodes.push(
+        isSafeUrl(href)
+          ? { type: "link", href, children: parseInline(linkText) }
+          : { type: "text", text: whole }
+      );
+    } else {
+      nodes.push({ type: "link", href: url, children: [{ type: "text", text: url }] });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+/**
+ * Parses Markdown notes into blocks.
+ * @param source The raw notes
+ * @returns The blocks, in order
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", children: parseInline(paragraph.join(" ")) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trimStart().startsWith("```")) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith("```")) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      flushParagraph();
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) {
+        quote.push(lines[i].replace(/^>\s?/, ""));
+        i++;
+      }
+      i--;
+      blocks.push({ type: "quote", children: parseInline(quote.join(" ")) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]);
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length) {
+        const next = LIST_ITEM.exec(lines[i]);
+        if (!next || /\d/.test(next[1]) !== ordered) break;
+        items.push(parseInline(next[2]));
+        i++;
+      }
+      i--;
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+}
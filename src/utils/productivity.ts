@@ -0,0 +1,154 @@
+import type { Todo } from "../todoReducer";
+import { addDays, getStartOfDay, parseLocalDate, toLocalDateString } from "./date";
+
+export type StatsRange = "7d" | "30d" | "90d";
+export type CompletionBucket = "day" | "week";
+
+export const STATS_RANGE_DAYS: Record<StatsRange, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+};
+
+export interface ChartPoint {
+  date: string; // Local YYYY-MM-DD; the first day of the bucket
+  value: number;
+}
+
+export interface BurnPoint {
+  date: string;
+  created: number; // Todos created so far (the scope)
+  completed: number; // Todos completed so far
+  remaining: number; // Todos open at the end of the day
+}
+
+export interface BreakdownRow {
+  key: string;
+  completed: number; // Completed within the range
+  open: number; // Open right now
+}
+
+const DAY = 86_400_000;
+
+/**
+ * Lists the local days in a range ending today, oldest first.
+ * @param days How many days to include
+ * @param now The current time
+ * @returns The days as YYYY-MM-DD strings
+ */
+export function getRangeDates(days: number, now: number = Date.now()): string[] {
+  const today = getStartOfDay(new Date(now));
+  return Array.from({ length: days }, (_, i) => toLocalDateString(addDays(today, i - days + 1)));
+}
+
+/**
+ * Counts completions per day or per week (weeks start on Sunday, like the calendar).
+ * Todos completed before timestamps were recorded have no completedAt and are skipped.
+ * @param todos The todos to count
+ * @param dates The days in the range, oldest first
+ * @param bucket Whether to group by day or by week
+ * @returns One point per bucket, oldest first
+ */
+export function getCompletionSeries(
+  todos: Todo[],
+  dates: string[],
+  bucket: CompletionBucket
+): ChartPoint[] {
+  const bucketOf = (date: string) => {
+    if (bucket === "day") return date;
+    const day = parseLocalDate(date);
+    return toLocalDateString(addDays(day, -day.getDay()));
+  };
+
+  const counts = new Map<string, number>();
+  dates.forEach((date) => counts.set(bucketOf(date), 0));
+  todos.forEach((todo) => {
+    if (!todo.completed || todo.completedAt === undefined) return;
+    const date = toLocalDateString(new Date(todo.completedAt));
+    if (date < dates[0] || date > dates[dates.length - 1]) return;
+    const key = bucketOf(date);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  // The first week may start before the range; label it with the range's first day instead
+  return Array.from(counts, ([date, value]) => ({ date: date < dates[0] ? dates[0] : date, value }));
+}
+
+/**
+ * Builds cumulative created/completed counts at the end of each day, for burnup and
+ * burndown charts. Completed todos without a completedAt can't be placed, so they're left out.
+ * @param todos The todos to count
+ * @param dates The days in the range, oldest first
+ * @returns One point per day
+ */
+export function getBurnSeries(todos: Todo[], dates: string[]): BurnPoint[] {
+  const tracked = todos.filter(
+    (todo) => todo.createdAt !== undefined && (!todo.completed || todo.completedAt !== undefined)
+  );
+  return dates.map((date) => {
+    const endOfDay = parseLocalDate(date).getTime() + DAY;
+    const created = tracked.filter((todo) => todo.createdAt! < endOfDay).length;
+    const completed = tracked.filter((todo) => todo.completed && todo.completedAt! < endOfDay).length;
+    return { date, created, completed, remaining: created - completed };
+  });
+}
+
+/**
+ * Groups todos by a key (e.g. category or priority), counting what was completed in
+ * the range and what is still open.
+ * @param todos The todos to group
+ * @param getKey Picks the group of a todo
+ * @param since Start of the range; completions before it aren't counted
+ * @returns One row per group that has anything to show, busiest first
+ */
+export function getBreakdown(
+  todos: Todo[],
+  getKey: (todo: Todo) => string,
+  since: number
+): BreakdownRow[] {
+  const rows = new Map<string, BreakdownRow>();
+  todos.forEach((todo) => {
+    const isCompletedInRange =
+      todo.completed && todo.completedAt !== undefined && todo.completedAt >= since;
+    if (todo.completed && !isCompletedInRange) return;
+    const key = getKey(todo);
+    const row = rows.get(key) ?? { key, completed: 0, open: 0 };
+    if (isCompletedInRange) row.completed++;
+    else row.open++;
+    rows.set(key, row);
+  });
+  return [...rows.values()].sort((a, b) => b.completed + b.open - (a.completed + a.open));
+}
+
+/**
+ * Averages how long todos completed in the range stayed open.
+ * @param todos The todos to measure
+ * @param since Start of the range
+ * @returns The average in milliseconds, or null when nothing can be measured
+ */
+export function getAverageTimeToComplete(todos: Todo[], since: number): number | null {
+  const durations = todos
+    .filter(
+      (todo) =>
+        todo.completed &&
+        todo.completedAt !== undefined &&
+        todo.createdAt !== undefined &&
+        todo.completedAt >= since
+    )
+    .map((todo) => Math.max(0, todo.completedAt! - todo.createdAt!));
+  if (durations.length === 0) return null;
+  return durations.reduce((sum, ms) => sum + ms, 0) / durations.length;
+}
+
+/**
+ * Formats a duration with its largest sensible unit, e.g. "45 min", "3.5 h", "2.1 days".
+ * @param ms The duration in milliseconds
+ * @returns A short, readable string
+ */
+export function formatDuration(ms: number): string {
+  const minutes = ms / 60_000;
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))} min`;
+  const hours = minutes / 60;
+  if (hours < 24) return `${Math.round(hours * 10) / 10} h`;
+  const days = Math.round((hours / 24) * 10) / 10;
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
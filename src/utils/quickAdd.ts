@@ -0,0 +1,244 @@
+import { addDays, toLocalDateString } from "./date";
+
+export type QuickAddPriority = "high" | "medium" | "low";
+
+// The parts of a category the parsers need (a Category from CategoryContext fits)
+export interface CategoryRef {
+  id: string;
+  name: string;
+}
+
+export interface QuickAddResult {
+  text: string;
+  dueDate?: string; // ISO date string
+  dueDateLabel?: string; // The phrase the date was recognized from
+  category?: string; // Category id
+  priority?: QuickAddPriority;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0,
+  feb: 1, february: 1,
+  mar: 2, march: 2,
+  apr: 3, april: 3,
+  may: 4,
+  jun: 5, june: 5,
+  jul: 6, july: 6,
+  aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9,
+  nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).sort((a, b) => b.length - a.length).join("|");
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join("|");
+
+const PRIORITY_TOKENS: Record<string, QuickAddPriority> = {
+  "!!!": "high",
+  "!!": "medium",
+  "!high": "high",
+  "!medium": "medium",
+  "!med": "medium",
+  "!low": "low",
+};
+
+interface DateMatcher {
+  pattern: RegExp; // Global, so every occurrence can be tried in turn
+  resolve: (match: RegExpMatchArray, today: Date) => Date | null;
+}
+
+// Short names that are also everyday words ("May I ask", "sat down"), so they only
+// count as dates when introduced, e.g. "on sat" or "due may 3"
+const AMBIGUOUS_NAMES = new Set(["sun", "mon", "wed", "sat", "jan", "mar", "may", "dec"]);
+
+// Fractions that read as amounts ("1/2 gallon") rather than dates, unless introduced
+const FRACTION_DENOMINATORS = new Set([2, 3, 4, 8, 16]);
+
+// A date phrase has to be a whole word: not part of "today's", "1/2/3" or "sunday-ish"
+const START = "(?<![\\w'’/-])";
+const END = "(?![\\w'’/-])";
+
+// "on" or "due" right before a date belongs to it, e.g. "on sat", "due tomorrow"
+const LEAD_WORD = /\b(?:on|due)\s+$/i;
+
+// Whether the phrase follows "on", "due" or "next", which marks it as a date
+function isIntroduced(match: RegExpMatchArray): boolean {
+  const before = match.input?.slice(0, match.index) ?? "";
+  return /^next\s/i.test(match[0]) || LEAD_WORD.test(before) || /\bnext\s+$/i.test(before);
+}
+
+function isAmbiguous(match: RegExpMatchArray, name: string): boolean {
+  return AMBIGUOUS_NAMES.has(name.toLowerCase()) && !isIntroduced(match);
+}
+
+// Returns the month/day in the current year, or next year if it has already passed
+function upcomingMonthDay(month: number, day: number, today: Date): Date | null {
+  if (day < 1 || day > 31) return null;
+  const date = new Date(today.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  return date < today ? new Date(today.getFullYear() + 1, month, day) : date;
+}
+
+// Ordered so that longer, more specific phrases win over their fragments
+const DATE_MATCHERS: DateMatcher[] = [
+  {
+    pattern: new RegExp(`${START}in\\s+(\\d{1,3})\\s+(days?|weeks?|months?)${END}`, "gi"),
+    resolve: (m, today) => {
+      const amount = parseInt(m[1], 10);
+      const unit = m[2].toLowerCase();
+      if (unit.startsWith("day")) return addDays(today, amount);
+      if (unit.startsWith("week")) return addDays(today, amount * 7);
+      return new Date(today.getFullYear(), today.getMonth() + amount, today.getDate());
+    },
+  },
+  {
+    pattern: new RegExp(`${START}(today|tonight)${END}`, "gi"),
+    resolve: (_m, today) => today,
+  },
+  {
+    pattern: new RegExp(`${START}(tomorrow|tmrw|tmr)${END}`, "gi"),
+    resolve: (_m, today) => addDays(today, 1),
+  },
+  {
+    pattern: new RegExp(`${START}next\\s+(week|month)${END}`, "gi"),
+    resolve: (m, today) =>
+      m[1].toLowerCase() === "week"
+        ? addDays(today, 7)
+        : new Date(today.getFullYear(), today.getMonth() + 1, today.getDate()),
+  },
+  {
+    // "fri" and "next fri" both mean the upcoming Friday, never today
+    pattern: new RegExp(`${START}(?:next\\s+)?(${WEEKDAY_PATTERN})${END}`, "gi"),
+    resolve: (m, today) => {
+      if (isAmbiguous(m, m[1])) return null;
+      const weekday = WEEKDAYS[m[1].toLowerCase()];
+      const diff = (weekday - today.getDay() + 7) % 7 || 7;
+      return addDays(today, diff);
+    },
+  },
+  {
+    pattern: new RegExp(`${START}(\\d{4})-(\\d{2})-(\\d{2})${END}`, "g"),
+    resolve: (m) => {
+      const date = new Date(parseInt(m[1], 10), parseInt(m[2], 10) - 1, parseInt(m[3], 10));
+      return isNaN(date.getTime()) ? null : date;
+    },
+  },
+  {
+    pattern: new RegExp(
+      `${START}(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?${END}`,
+      "gi"
+    ),
+    resolve: (m, today) =>
+      isAmbiguous(m, m[1])
+        ? null
+        : upcomingMonthDay(MONTHS[m[1].toLowerCase()], parseInt(m[2], 10), today),
+  },
+  {
+    pattern: new RegExp(`${START}(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_PATTERN})${END}`, "gi"),
+    resolve: (m, today) =>
+      isAmbiguous(m, m[2])
+        ? null
+        : upcomingMonthDay(MONTHS[m[2].toLowerCase()], parseInt(m[1], 10), today),
+  },
+  {
+    pattern: new RegExp(`${START}(\\d{1,2})\\/(\\d{1,2})${END}`, "g"),
+    resolve: (m, today) => {
+      const month = parseInt(m[1], 10);
+      const day = parseInt(m[2], 10);
+      if (month < day && FRACTION_DENOMINATORS.has(day) && !isIntroduced(m)) return null;
+      return upcomingMonthDay(month - 1, day, today);
+    },
+  },
+];
+
+/**
+ * Finds a category by its name, ignoring case; spaces in the name may be typed as dashes.
+ * Ids are still accepted so text written before a rename keeps working.
+ * @param categories The categories to search
+ * @param value The typed name, e.g. "office" or "side-project"
+ * @returns The category, or undefined when none matches
+ */
+export function findCategoryByName<T extends CategoryRef>(
+  categories: T[],
+  value: string
+): T | undefined {
+  const key = value.toLowerCase();
+  return (
+    categories.find((c) => {
+      const name = c.name.toLowerCase();
+      return name === key || name.replace(/\s+/g, "-") === key;
+    }) ?? categories.find((c) => c.id === key)
+  );
+}
+
+// The first date phrase by matcher priority, trying each occurrence until one resolves
+function findDate(text: string, today: Date): { date: Date; match: RegExpMatchArray } | null {
+  for (const matcher of DATE_MATCHERS) {
+    for (const match of text.matchAll(matcher.pattern)) {
+      const date = matcher.resolve(match, today);
+      if (date) return { date, match };
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses a single quick-add line such as "Pay rent friday #personal !high".
+ * Recognized phrases are stripped from the returned text.
+ * @param input The raw text typed into the todo input
+ * @param categories Categories that `#name` may refer to
+ * @param now The reference time for relative dates
+ * @returns The cleaned text plus any recognized due date, category and priority
+ */
+export function parseQuickAdd(
+  input: string,
+  categories: CategoryRef[],
+  now: Date = new Date()
+): QuickAddResult {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const result: QuickAddResult = { text: input };
+  let remaining = input;
+
+  // Priority and category are standalone tokens; the last one typed wins
+  const tokens = remaining.split(/\s+/);
+  const kept: string[] = [];
+  for (const token of tokens) {
+    const lower = token.toLowerCase();
+    if (PRIORITY_TOKENS[lower]) {
+      result.priority = PRIORITY_TOKENS[lower];
+      continue;
+    }
+    if (lower.startsWith("#")) {
+      const category = findCategoryByName(categories, lower.slice(1));
+      if (category) {
+        result.category = category.id;
+        continue;
+      }
+    }
+    kept.push(token);
+  }
+  remaining = kept.join(" ");
+
+  const found = findDate(remaining, today);
+  if (found) {
+    const { date, match } = found;
+    result.dueDate = toLocalDateString(date);
+    result.dueDateLabel = match[0];
+    const before = remaining.slice(0, match.index).replace(LEAD_WORD, "");
+    remaining = before + " " + remaining.slice(match.index! + match[0].length);
+  }
+
+  result.text = remaining.replace(/\s+/g, " ").trim();
+  return result;
+}
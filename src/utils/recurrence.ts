@@ -0,0 +1,148 @@
+import { addDays, parseLocalDate, toLocalDateString } from "./date";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days, weeks or months
+  weekdays?: number[]; // Weekly: 0 (Sunday) to 6 (Saturday)
+  monthDay?: number; // Monthly: day of the month
+  monthWeek?: number; // Monthly: 1 to 4, or -1 for the last week
+  monthWeekday?: number; // Monthly: weekday paired with monthWeek
+  endDate?: string; // ISO date string, inclusive
+  count?: number; // Total occurrences in the series
+  occurrence: number; // 1-based position of this item in the series
+}
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const ORDINALS: Record<number, string> = {
+  1: "1st",
+  2: "2nd",
+  3: "3rd",
+  4: "4th",
+  [-1]: "last",
+};
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * Finds the Nth weekday of a month, e.g. the 2nd Tuesday.
+ * @param year Full year
+ * @param month Zero-based month
+ * @param week 1 to 4, or -1 for the last occurrence
+ * @param weekday 0 (Sunday) to 6 (Saturday)
+ * @returns The matching date
+ */
+export function getNthWeekdayOfMonth(
+  year: number,
+  month: number,
+  week: number,
+  weekday: number
+): Date {
+  if (week === -1) {
+    const last = new Date(year, month, daysInMonth(year, month));
+    const offset = (last.getDay() - weekday + 7) % 7;
+    return addDays(last, -offset);
+  }
+  const first = new Date(year, month, 1);
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return new Date(year, month, 1 + offset + (week - 1) * 7);
+}
+
+function nextWeekly(from: Date, rule: RecurrenceRule): Date {
+  const weekdays = [...(rule.weekdays ?? [])].sort((a, b) => a - b);
+  if (weekdays.length === 0) {
+    return addDays(from, 7 * rule.interval);
+  }
+  // Later weekday in the same week
+  const later = weekdays.find((day) => day > from.getDay());
+  if (later !== undefined) {
+    return addDays(from, later - from.getDay());
+  }
+  // Otherwise the first selected weekday, `interval` weeks on
+  const weekStart = addDays(from, -from.getDay());
+  return addDays(weekStart, 7 * rule.interval + weekdays[0]);
+}
+
+function nextMonthly(from: Date, rule: RecurrenceRule): Date {
+  const target = new Date(from.getFullYear(), from.getMonth() + rule.interval, 1);
+  const year = target.getFullYear();
+  const month = target.getMonth();
+
+  if (rule.monthWeek !== undefined && rule.monthWeekday !== undefined) {
+    return getNthWeekdayOfMonth(year, month, rule.monthWeek, rule.monthWeekday);
+  }
+  // Clamp to the end of shorter months without drifting the anchor day
+  const day = Math.min(rule.monthDay ?? from.getDate(), daysInMonth(year, month));
+  return new Date(year, month, day);
+}
+
+/**
+ * Computes the due date of the occurrence after the given one.
+ * @param rule The recurrence rule of the current occurrence
+ * @param fromDate ISO date string of the current occurrence
+ * @returns The next ISO date string, or null once the series has ended
+ */
+export function getNextOccurrence(rule: RecurrenceRule, fromDate: string): string | null {
+  if (rule.count !== undefined && rule.occurrence >= rule.count) {
+    return null;
+  }
+
+  const from = parseLocalDate(fromDate);
+  let next: Date;
+  switch (rule.frequency) {
+    case "daily":
+      next = addDays(from, rule.interval);
+      break;
+    case "weekly":
+      next = nextWeekly(from, rule);
+      break;
+    case "monthly":
+      next = nextMonthly(from, rule);
+      break;
+  }
+
+  const nextString = toLocalDateString(next);
+  if (rule.endDate && nextString > rule.endDate) {
+    return null;
+  }
+  return nextString;
+}
+
+/**
+ * Builds a short human-readable summary of a rule, e.g. "Every 2 weeks on Mon, Thu".
+ * @param rule The recurrence rule to describe
+ * @returns The summary text
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const { frequency, interval } = rule;
+  let summary: string;
+
+  if (frequency === "daily") {
+    summary = interval === 1 ? "Daily" : `Every ${interval} days`;
+  } else if (frequency === "weekly") {
+    summary = interval === 1 ? "Weekly" : `Every ${interval} weeks`;
+    if (rule.weekdays && rule.weekdays.length > 0) {
+      const days = [...rule.weekdays].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]);
+      summary += ` on ${days.join(", ")}`;
+    }
+  } else {
+    summary = interval === 1 ? "Monthly" : `Every ${interval} months`;
+    if (rule.monthWeek !== undefined && rule.monthWeekday !== undefined) {
+      summary += ` on the ${ORDINALS[rule.monthWeek]} ${WEEKDAY_LABELS[rule.monthWeekday]}`;
+    } else if (rule.monthDay !== undefined) {
+      summary += ` on day ${rule.monthDay}`;
+    }
+  }
+
+  if (rule.count !== undefined) {
+    summary += ` (${rule.occurrence} of ${rule.count})`;
+  } else if (rule.endDate) {
+    const end = parseLocalDate(rule.endDate);
+    summary += ` until ${end.toLocaleDateString("en-US", { month: "short", day: "numeric" })}`;
+  }
+  return summary;
+}
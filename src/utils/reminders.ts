@@ -0,0 +1,76 @@
+import { parseLocalDate } from "./date";
+
+// The minimal todo shape reminders are computed from
+export interface RemindableTodo {
+  id: number;
+  text: string;
+  completed: boolean;
+  dueDate?: string;
+  dueTime?: string; // HH:MM, local time
+  reminders?: number[]; // Minutes before the due time
+}
+
+export interface DueReminder {
+  key: string; // Identifies this reminder for this due time, so rescheduling re-arms it
+  todoId: number;
+  text: string;
+  offset: number;
+  fireAt: number;
+  dueAt: number;
+}
+
+// Todos without a due time are treated as due at this local time for reminders
+export const DEFAULT_DUE_TIME = "09:00";
+
+export const REMINDER_OPTIONS: number[] = [0, 5, 15, 30, 60, 120, 1440, 2880, 10080];
+
+/**
+ * Describes a reminder offset, e.g. "15 min before" or "1 day before".
+ * @param minutes Minutes before the due time
+ * @returns A short label
+ */
+export function describeReminder(minutes: number): string {
+  if (minutes === 0) return "At due time";
+  if (minutes % 10080 === 0) return `${minutes / 10080} week${minutes === 10080 ? "" : "s"} before`;
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? "" : "s"} before`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? "" : "s"} before`;
+  return `${minutes} min before`;
+}
+
+/**
+ * Returns when a todo is due, combining its date with its time (or the default time).
+ * @param todo The todo
+ * @returns A timestamp in ms, or null when the todo has no due date
+ */
+export function getDueTimestamp(todo: RemindableTodo): number | null {
+  if (!todo.dueDate) return null;
+  const date = parseLocalDate(todo.dueDate);
+  const [hours, minutes] = (todo.dueTime ?? DEFAULT_DUE_TIME).split(":").map(Number);
+  date.setHours(hours, minutes, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Lists every reminder of the open todos, fired or not.
+ * @param todos The todos to scan
+ * @returns Reminders sorted by the time they should fire
+ */
+export function getReminders(todos: RemindableTodo[]): DueReminder[] {
+  const reminders: DueReminder[] = [];
+  todos.forEach((todo) => {
+    if (todo.completed || !todo.reminders?.length) return;
+    const dueAt = getDueTimestamp(todo);
+    if (dueAt === null) return;
+    todo.reminders.forEach((offset) => {
+      reminders.push({
+        key: `${todo.id}:${dueAt}:${offset}`,
+        todoId: todo.id,
+        text: todo.text,
+        offset,
+        fireAt: dueAt - offset * 60_000,
+        dueAt,
+      });
+    });
+  });
+  return reminders.sort((a, b) => a.fireAt - b.fireAt);
+}
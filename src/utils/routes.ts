@@ -0,0 +1,57 @@
+export type Page = "todos" | "stats" | "contact" | "about" | "notFound";
+
+export interface Route {
+  page: Page;
+  todoId?: number; // Set by /todos/:id, which opens that todo's details
+}
+
+export const APP_TITLE = "Webby Test";
+
+export const PAGE_TITLES: Record<Page, string> = {
+  todos: "Todos",
+  stats: "Stats",
+  contact: "Contact",
+  about: "About",
+  notFound: "Page not found",
+};
+
+// Paths of the pages that take no parameters
+const STATIC_PATHS: Record<string, Page> = {
+  "/": "todos",
+  "/todos": "todos",
+  "/stats": "stats",
+  "/contact": "contact",
+  "/about": "about",
+};
+
+/**
+ * Works out which page a path shows.
+ * @param pathname The URL path, e.g. "/todos/1700000000000"
+ * @returns The matched route; unknown paths give the notFound page
+ */
+export function parseRoute(pathname: string): Route {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  const page = STATIC_PATHS[path];
+  if (page) return { page };
+  const todoMatch = /^\/todos\/(\d+)$/.exec(path);
+  if (todoMatch) return { page: "todos", todoId: Number(todoMatch[1]) };
+  return { page: "notFound" };
+}
+
+/**
+ * Builds the deep link to a todo.
+ * @param id The todo id
+ * @returns The path that opens the todo's details
+ */
+export function getTodoPath(id: number): string {
+  return `/todos/${id}`;
+}
+
+/**
+ * Formats a document title, e.g. "Stats · Webby Test".
+ * @param title The page title
+ * @returns The full title
+ */
+export function formatDocumentTitle(title: string): string {
+  return `${title} · ${APP_TITLE}`;
+}
@@ -0,0 +1,441 @@
+import { CategoryRef, findCategoryByName, parseQuickAdd } from "./quickAdd";
+import { toLocalDateString } from "./date";
+
+/*
+ * Query language for the todo search box, e.g.
+ *   category:work priority:>=medium due:<2026-11-01 is:active "exact phrase" -excluded
+ *
+ * Bare words must all appear in the text (or the notes); when a query is only bare words the
+ * results are matched and ranked fuzzily. A leading "-" negates any term.
+ */
+
+export type Comparator = "=" | "<" | "<=" | ">" | ">=";
+
+type PriorityLevel = "high" | "medium" | "low";
+type StatusValue = "active" | "completed" | "overdue" | "recurring" | "actionable" | "blocked";
+
+export type SearchClause =
+  | { kind: "text"; value: string; negate: boolean }
+  | { kind: "category"; value: string; negate: boolean } // value is the category id
+  | { kind: "priority"; op: Comparator; value: PriorityLevel; negate: boolean }
+  | { kind: "due"; op: Comparator; value: string | null; negate: boolean }
+  | { kind: "is"; value: StatusValue; negate: boolean };
+
+export interface QueryError {
+  message: string;
+  position: number;
+}
+
+export interface ParsedQuery {
+  clauses: SearchClause[];
+  errors: QueryError[];
+  // True when the query uses anything beyond bare words (fields, phrases, negation)
+  hasOperators: boolean;
+  // Positive text terms, used for highlighting
+  highlightTerms: string[];
+}
+
+// The minimal todo shape the query language can evaluate
+export interface SearchableTodo {
+  text: string;
+  completed: boolean;
+  dueDate?: string;
+  category?: string;
+  priority: PriorityLevel;
+  recurrence?: unknown;
+  notes?: string;
+  isBlocked?: boolean; // Waiting on an open blocker (see utils/dependencies)
+}
+
+interface Token {
+  raw: string;
+  value: string;
+  field?: string;
+  quoted: boolean;
+  negate: boolean;
+  position: number;
+}
+
+const FIELDS = ["category", "priority", "due", "is"];
+const PRIORITY_RANK: Record<PriorityLevel, number> = { low: 0, medium: 1, high: 2 };
+const STATUS_VALUES: StatusValue[] = [
+  "active",
+  "completed",
+  "overdue",
+  "recurring",
+  "actionable",
+  "blocked",
+];
+
+function tokenize(query: string, errors: QueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const position = i;
+    let negate = false;
+    if (query[i] === "-" && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negate = true;
+      i++;
+    }
+
+    let field: string | undefined;
+    const fieldMatch = /^([a-zA-Z]+):/.exec(query.slice(i));
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    let value = "";
+    let quoted = false;
+    if (query[i] === '"') {
+      quoted = true;
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        errors.push({ message: "Missing closing quote", position: i });
+        value = query.slice(i + 1);
+        i = query.length;
+      } else {
+        value = query.slice(i + 1, end);
+        i = end + 1;
+      }
+    } else {
+      const start = i;
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      value = query.slice(start, i);
+    }
+
+    tokens.push({ raw: query.slice(position, i), value, field, quoted, negate, position });
+  }
+
+  return tokens;
+}
+
+function splitComparator(value: string): { op: Comparator; rest: string } {
+  const match = /^(>=|<=|>|<|=)/.exec(value);
+  return match
+    ? { op: match[1] as Comparator, rest: value.slice(match[1].length) }
+    : { op: "=", rest: value };
+}
+
+// Resolves "today", "fri", "nov 4", "2026-11-01" etc. to an ISO date string
+function resolveDate(value: string, now: Date): string | null {
+  const lower = value.toLowerCase();
+  if (lower === "today") return toLocalDateString(now);
+  const parsed = parseQuickAdd(value.replace(/-(?=[a-z])/gi, " "), [], now);
+  return parsed.dueDate && !parsed.text ? parsed.dueDate : null;
+}
+
+function parseFieldToken(
+  token: Token,
+  categories: CategoryRef[],
+  errors: QueryError[],
+  now: Date
+): SearchClause | null {
+  const { field, value, negate, position } = token;
+
+  if (!value) {
+    errors.push({ message: `"${field}:" needs a value`, position });
+    return null;
+  }
+
+  switch (field) {
+    case "category": {
+      const category = findCategoryByName(categories, value);
+      if (!category) {
+        errors.push({
+          message: `Unknown category "${value}" — try ${categories.map((c) => c.name).join(", ")}`,
+          position,
+        });
+        return null;
+      }
+      return { kind: "category", value: category.id, negate };
+    }
+    case "priority": {
+      const { op, rest } = splitComparator(value.toLowerCase());
+      const level = (rest === "med" ? "medium" : rest) as PriorityLevel;
+      if (!Object.prototype.hasOwnProperty.call(PRIORITY_RANK, level)) {
+        errors.push({
+          message: `Unknown priority "${rest}" — use high, medium or low`,
+          position,
+        });
+        return null;
+      }
+      return { kind: "priority", op, value: level, negate };
+    }
+    case "due": {
+      const { op, rest } = splitComparator(value);
+      const lower = rest.toLowerCase();
+      if (lower === "none") {
+        return { kind: "due", op: "=", value: null, negate };
+      }
+      if (lower === "overdue") {
+        return { kind: "due", op: "<", value: toLocalDateString(now), negate };
+      }
+      if (lower === "upcoming") {
+        return { kind: "due", op: ">", value: toLocalDateString(now), negate };
+      }
+      const date = resolveDate(rest, now);
+      if (!date) {
+        errors.push({
+          message: `Can't read date "${rest}" — use YYYY-MM-DD, today, tomorrow or a weekday`,
+          position,
+        });
+        return null;
+      }
+      return { kind: "due", op, value: date, negate };
+    }
+    case "is": {
+      const status = value.toLowerCase() as StatusValue;
+      if (!STATUS_VALUES.includes(status)) {
+        errors.push({
+          message: `Unknown status "is:${value}" — use ${STATUS_VALUES.join(", ")}`,
+          position,
+        });
+        return null;
+      }
+      return { kind: "is", value: status, negate };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a search box query into clauses, collecting hints for malformed parts.
+ * Invalid clauses are skipped so the rest of the query still applies.
+ * @param query The raw search text
+ * @param categories Categories that category: may name
+ * @param now The reference time for relative dates
+ * @returns The parsed query
+ */
+export function parseSearchQuery(
+  query: string,
+  categories: CategoryRef[],
+  now: Date = new Date()
+): ParsedQuery {
+  const errors: QueryError[] = [];
+  const clauses: SearchClause[] = [];
+  let hasOperators = false;
+
+  for (const token of tokenize(query, errors)) {
+    if (token.field || token.quoted || token.negate) hasOperators = true;
+
+    if (token.field && !FIELDS.includes(token.field)) {
+      // Probably ordinary text with a colon; search it as text but point it out
+      errors.push({
+        message: `Unknown filter "${token.field}:" — searched as text. Filters: ${FIELDS.join(", ")}`,
+        position: token.position,
+      });
+      clauses.push({
+        kind: "text",
+        value: token.raw.replace(/^-/, "").toLowerCase(),
+        negate: token.negate,
+      });
+      continue;
+    }
+
+    if (token.field) {
+      const clause = parseFieldToken(token, categories, errors, now);
+      if (clause) clauses.push(clause);
+      continue;
+    }
+
+    if (token.value) {
+      clauses.push({
+        kind: "text",
+        value: token.value.toLowerCase(),
+        negate: token.negate,
+      });
+    }
+  }
+
+  const highlightTerms = clauses
+    .filter((c): c is Extract<SearchClause, { kind: "text" }> => c.kind === "text" && !c.negate)
+    .map((c) => c.value);
+
+  errors.sort((a, b) => a.position - b.position);
+  return { clauses, errors, hasOperators, highlightTerms };
+}
+
+function compare(a: number | string, op: Comparator, b: number | string): boolean {
+  switch (op) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+    default: return a === b;
+  }
+}
+
+interface FuzzyMatch {
+  score: number;
+  positions: number[]; // Indices of the matched characters in the text
+}
+
+// Shared by scoring and highlighting so both agree on what matched
+function fuzzyMatch(text: string, term: string): FuzzyMatch | null {
+  if (!term) return { score: 1, positions: [] };
+  const index = text.indexOf(term);
+  if (index !== -1) {
+    const atWordStart = index === 0 || /\W/.test(text[index - 1]);
+    return {
+      score: 100 + (atWordStart ? 50 : 0) - Math.min(index, 50),
+      positions: Array.from(term, (_char, i) => index + i),
+    };
+  }
+
+  // Short terms only match contiguously to avoid noisy results
+  if (term.length < 3) return null;
+
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+  const positions: number[] = [];
+  for (const char of term) {
+    const found = text.indexOf(char, textIndex);
+    if (found === -1) return null;
+    score += found === previousMatch + 1 ? 5 : 1;
+    positions.push(found);
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+
+  // Reject matches scattered across most of the text
+  const span = previousMatch - positions[0] + 1;
+  if (span > term.length * 3) return null;
+  return { score, positions };
+}
+
+/**
+ * Scores how well a term fuzzily matches text: contiguous matches score highest,
+ * then matches at word starts, then in-order subsequences that stay compact.
+ * @param text The lowercased text to search
+ * @param term The lowercased term
+ * @returns A positive score, or 0 when the term doesn't match
+ */
+export function fuzzyScore(text: string, term: string): number {
+  return fuzzyMatch(text, term)?.score ?? 0;
+}
+
+/**
+ * Finds the parts of a todo's text that search terms matched, for highlighting.
+ * Every exact occurrence of a term is marked; a term that only matches fuzzily
+ * marks the characters the fuzzy match used.
+ * @param text The text as shown
+ * @param terms The lowercased search terms
+ * @param fuzzy Whether terms may match fuzzily (queries with operators match exactly)
+ * @returns Ordered, non-overlapping [start, end) ranges
+ */
+export function getHighlightRanges(
+  text: string,
+  terms: string[],
+  fuzzy = true
+): [number, number][] {
+  const lower = text.toLowerCase();
+  const marked = new Array<boolean>(lower.length).fill(false);
+  for (const term of terms) {
+    if (!term.trim()) continue;
+    if (lower.includes(term)) {
+      for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + 1)) {
+        marked.fill(true, i, i + term.length);
+      }
+    } else if (fuzzy) {
+      fuzzyMatch(lower, term)?.positions.forEach((i) => (marked[i] = true));
+    }
+  }
+
+  const ranges: [number, number][] = [];
+  marked.forEach((isMarked, i) => {
+    if (!isMarked) return;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === i) last[1] = i + 1;
+    else ranges.push([i, i + 1]);
+  });
+  return ranges;
+}
+
+function matchesClause(
+  todo: SearchableTodo,
+  clause: SearchClause,
+  lowerText: string,
+  lowerNotes: string,
+  today: string
+): boolean {
+  switch (clause.kind) {
+    case "text":
+      return lowerText.includes(clause.value) || lowerNotes.includes(clause.value);
+    case "category":
+      return todo.category === clause.value;
+    case "priority":
+      return compare(PRIORITY_RANK[todo.priority], clause.op, PRIORITY_RANK[clause.value]);
+    case "due":
+      if (clause.value === null) return !todo.dueDate;
+      return !!todo.dueDate && compare(todo.dueDate, clause.op, clause.value);
+    case "is":
+      if (clause.value === "active") return !todo.completed;
+      if (clause.value === "completed") return todo.completed;
+      if (clause.value === "recurring") return !!todo.recurrence;
+      if (clause.value === "actionable") return !todo.completed && !todo.isBlocked;
+      if (clause.value === "blocked") return !todo.completed && !!todo.isBlocked;
+      return !todo.completed && !!todo.dueDate && todo.dueDate < today;
+  }
+}
+
+/**
+ * Evaluates a parsed query against a todo.
+ * @param todo The todo to test
+ * @param query The parsed query
+ * @param now The reference time for overdue checks
+ * @returns A relevance score (higher is better), or 0 when the todo doesn't match
+ */
+export function scoreTodo(todo: SearchableTodo, query: ParsedQuery, now: Date = new Date()): number {
+  return scoreLowercasedTodo(
+    todo,
+    todo.text.toLowerCase(),
+    todo.notes?.toLowerCase() ?? "",
+    query,
+    toLocalDateString(now)
+  );
+}
+
+/**
+ * Evaluates a parsed query against a todo whose text was lowercased ahead of time,
+ * for scoring many todos per keystroke.
+ * @param todo The todo to test
+ * @param lowerText The todo's text, lowercased
+ * @param lowerNotes The todo's notes, lowercased ("" when there are none)
+ * @param query The parsed query
+ * @param today Today's local date (YYYY-MM-DD), for overdue checks
+ * @returns A relevance score (higher is better), or 0 when the todo doesn't match
+ */
+export function scoreLowercasedTodo(
+  todo: SearchableTodo,
+  lowerText: string,
+  lowerNotes: string,
+  query: ParsedQuery,
+  today: string
+): number {
+  if (!query.hasOperators) {
+    let total = 1;
+    for (const clause of query.clauses) {
+      if (clause.kind !== "text") continue;
+      // Notes only match exactly (fuzzy matching long text is noise) and rank below the title
+      const score =
+        fuzzyScore(lowerText, clause.value) || (lowerNotes.includes(clause.value) ? 10 : 0);
+      if (score === 0) return 0;
+      total += score;
+    }
+    return total;
+  }
+
+  for (const clause of query.clauses) {
+    if (matchesClause(todo, clause, lowerText, lowerNotes, today) === clause.negate) return 0;
+  }
+  return 1;
+}
@@ -0,0 +1,195 @@
+import { getStorageAdapter } from "./storageAdapters";
+
+/*
+ * Versioned persistence on top of the active storage adapter. Every key is
+ * stored as an envelope { version, data }; values written before versioning
+ * (plain JSON or bare strings) are read as version 0 and upgraded through the
+ * schema's migrations.
+ * Payloads that can't be parsed, migrated or validated are copied to a backup
+ * key and replaced by the schema's fallback so the app can still start.
+ */
+
+export interface ValidationResult<T> {
+  value: T;
+  // Number of records that were dropped because they failed validation
+  invalid: number;
+}
+
+export interface StorageSchema<T> {
+  key: string;
+  // migrations[n] upgrades data from version n to n + 1; the current version is migrations.length
+  migrations: ((data: unknown) => unknown)[];
+  validate: (data: unknown) => ValidationResult<T> | null;
+  fallback: () => T;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+const quarantinedKeys = new Set<string>();
+
+/**
+ * Returns the key a corrupted payload is backed up under.
+ * @param key The storage key
+ * @returns The backup key
+ */
+export function getBackupKey(key: string): string {
+  return `${key}.backup`;
+}
+
+function isEnvelope(value: unknown): value is Envelope {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Envelope).version === "number" &&
+    "data" in value
+  );
+}
+
+function readEnvelope(raw: string): Envelope {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // Legacy keys such as the theme were stored as bare strings
+    parsed = raw;
+  }
+  return isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+}
+
+function quarantine(key: string, raw: string, reason: string): void {
+  console.warn(`Saved data for "${key}" ${reason}; backed up to "${getBackupKey(key)}"`);
+  try {
+    getStorageAdapter().setItem(getBackupKey(key), raw);
+  } catch {
+    // Storage is full or unavailable; the warning above is all we can do
+  }
+  quarantinedKeys.add(key);
+}
+
+function readPersisted<T>(schema: StorageSchema<T>, raw: string | null): T {
+  if (raw === null) return schema.fallback();
+
+  const currentVersion = schema.migrations.length;
+  let { version, data } = readEnvelope(raw);
+
+  if (!Number.isInteger(version) || version < 0 || version > currentVersion) {
+    quarantine(schema.key, raw, `has unsupported version ${version}`);
+    return schema.fallback();
+  }
+
+  try {
+    for (; version < currentVersion; version++) {
+      data = schema.migrations[version](data);
+    }
+  } catch {
+    quarantine(schema.key, raw, `failed to migrate from version ${version}`);
+    return schema.fallback();
+  }
+
+  const result = schema.validate(data);
+  if (!result) {
+    quarantine(schema.key, raw, "is malformed");
+    return schema.fallback();
+  }
+  if (result.invalid > 0) {
+    quarantine(schema.key, raw, `had ${result.invalid} invalid record(s)`);
+  }
+  return result.value;
+}
+
+/**
+ * Loads a persisted value, migrating it to the current schema version.
+ * @param schema The schema describing the key
+ * @returns The stored value, or the schema's fallback when missing or unreadable
+ */
+export function loadPersisted<T>(schema: StorageSchema<T>): T {
+  let raw: string | null;
+  try {
+    raw = getStorageAdapter().getItem(schema.key);
+  } catch {
+    return schema.fallback();
+  }
+  return readPersisted(schema, raw);
+}
+
+/**
+ * Listens for another tab changing the schema's key.
+ * @param schema The schema describing the key
+ * @param listener Called with the new, migrated and validated value
+ * @returns A function that stops listening
+ */
+export function subscribePersisted<T>(
+  schema: StorageSchema<T>,
+  listener: (value: T) => void
+): () => void {
+  return getStorageAdapter().subscribe((key, raw) => {
+    if (key === schema.key) listener(readPersisted(schema, raw));
+  });
+}
+
+/**
+ * Writes a value under the schema's key, tagged with the current version.
+ * @param schema The schema describing the key
+ * @param value The value to store
+ */
+export function savePersisted<T>(schema: StorageSchema<T>, value: T): void {
+  const envelope: Envelope = { version: schema.migrations.length, data: value };
+  try {
+    getStorageAdapter().setItem(schema.key, JSON.stringify(envelope));
+  } catch (error) {
+    console.warn(`Couldn't save "${schema.key}"`, error);
+  }
+}
+
+/**
+ * Returns the keys quarantined since the last call and clears the list.
+ * @returns Storage keys whose saved data was backed up and reset
+ */
+export function takeQuarantinedKeys(): string[] {
+  const keys = [...quarantinedKeys];
+  quarantinedKeys.clear();
+  return keys;
+}
+
+/**
+ * Validates each element of an array, dropping the ones that fail.
+ * @param data The value expected to be an array
+ * @param validateRecord Returns the cleaned record, or null when invalid
+ * @returns The valid records, or null when data isn't an array
+ */
+export function validateRecords<T>(
+  data: unknown,
+  validateRecord: (record: unknown) => T | null
+): ValidationResult<T[]> | null {
+  if (!Array.isArray(data)) return null;
+  const value: T[] = [];
+  for (const record of data) {
+    const valid = validateRecord(record);
+    if (valid !== null) value.push(valid);
+  }
+  return { value, invalid: data.length - value.length };
+}
+
+/**
+ * Builds a schema for a key holding one of a fixed set of strings.
+ * @param key The storage key
+ * @param values The allowed values
+ * @param fallback The value used when nothing valid is stored
+ * @returns The schema
+ */
+export function createEnumSchema<T extends string>(
+  key: string,
+  values: readonly T[],
+  fallback: T
+): StorageSchema<T> {
+  return {
+    key,
+    migrations: [(data) => data],
+    validate: (data) =>
+      values.includes(data as T) ? { value: data as T, invalid: 0 } : null,
+    fallback: () => fallback,
+  };
+}
@@ -0,0 +1,204 @@
+/*
+ * Key/value storage backends. Reads are synchronous so state can be
+ * initialized during render; asynchronous backends hydrate a cache up front
+ * and write through in the background. Each adapter reports changes made by
+ * other tabs so open pages stay in sync.
+ */
+
+export type StorageBackend = "localStorage" | "indexedDB" | "memory";
+
+export type StorageChangeListener = (key: string, value: string | null) => void;
+
+export interface StorageAdapter {
+  backend: StorageBackend;
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+  // Notifies about changes made elsewhere (other tabs), never about our own writes
+  subscribe: (listener: StorageChangeListener) => () => void;
+}
+
+export const STORAGE_BACKENDS: StorageBackend[] = ["localStorage", "indexedDB", "memory"];
+
+const DB_NAME = "webby";
+const DB_STORE = "keyval";
+const CHANNEL_NAME = "webby-storage";
+
+let activeAdapter: StorageAdapter | null = null;
+
+function createListenerSet() {
+  const listeners = new Set<StorageChangeListener>();
+  return {
+    add(listener: StorageChangeListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    notify(key: string, value: string | null) {
+      listeners.forEach((listener) => listener(key, value));
+    },
+  };
+}
+
+/**
+ * Creates an adapter backed by window.localStorage. Other tabs' writes
+ * arrive through the window "storage" event.
+ * @returns The adapter
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    backend: "localStorage",
+    getItem: (key) => localStorage.getItem(key),
+    setItem: (key, value) => {
+      // Skipping identical writes stops tabs from echoing each other's changes forever
+      if (localStorage.getItem(key) === value) return;
+      localStorage.setItem(key, value);
+    },
+    removeItem: (key) => localStorage.removeItem(key),
+    subscribe: (listener) => {
+      const handleStorage = (e: StorageEvent) => {
+        if (e.storageArea === localStorage && e.key !== null) listener(e.key, e.newValue);
+      };
+      window.addEventListener("storage", handleStorage);
+      return () => window.removeEventListener("storage", handleStorage);
+    },
+  };
+}
+
+/**
+ * Creates an adapter that keeps everything in memory, for tests and for
+ * browsers where persistent storage is unavailable.
+ * @param initial Entries to start with
+ * @returns The adapter
+ */
+export function createMemoryAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const entries = new Map(Object.entries(initial));
+  const listeners = createListenerSet();
+  return {
+    backend: "memory",
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+    subscribe: listeners.add,
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+  return requestToPromise(request);
+}
+
+/**
+ * Creates an adapter backed by IndexedDB. All entries are loaded into memory
+ * first; writes update the cache immediately, persist in the background and
+ * are broadcast to other tabs over a BroadcastChannel. The first time the
+ * database is used it imports whatever is already in localStorage.
+ * @returns A promise for the adapter
+ */
+export async function createIndexedDBAdapter(): Promise<StorageAdapter> {
+  const db = await openDatabase();
+  const readStore = db.transaction(DB_STORE, "readonly").objectStore(DB_STORE);
+  const [keys, values] = await Promise.all([
+    requestToPromise(readStore.getAllKeys()),
+    requestToPromise(readStore.getAll()),
+  ]);
+  const entries = new Map<string, string>();
+  keys.forEach((key, i) => entries.set(String(key), values[i]));
+
+  const persist = (key: string, value: string | null) => {
+    const store = db.transaction(DB_STORE, "readwrite").objectStore(DB_STORE);
+    const request = value === null ? store.delete(key) : store.put(value, key);
+    request.onerror = () => console.warn(`Couldn't write "${key}" to IndexedDB`, request.error);
+  };
+
+  if (entries.size === 0 && typeof localStorage !== "undefined") {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const value = key === null ? null : localStorage.getItem(key);
+      if (key !== null && value !== null) {
+        entries.set(key, value);
+        persist(key, value);
+      }
+    }
+  }
+
+  const listeners = createListenerSet();
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<{ key: string; value: string | null }>) => {
+    const { key, value } = e.data;
+    if (value === null) entries.delete(key);
+    else entries.set(key, value);
+    listeners.notify(key, value);
+  };
+
+  const write = (key: string, value: string | null) => {
+    if ((entries.get(key) ?? null) === value) return;
+    if (value === null) entries.delete(key);
+    else entries.set(key, value);
+    persist(key, value);
+    channel.postMessage({ key, value });
+  };
+
+  return {
+    backend: "indexedDB",
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: write,
+    removeItem: (key) => write(key, null),
+    subscribe: listeners.add,
+  };
+}
+
+/**
+ * Selects the storage backend. Call once before rendering; falls back to
+ * localStorage, then memory, when the requested backend isn't available.
+ * @param backend The preferred backend
+ * @returns A promise for the adapter that was installed
+ */
+export async function initStorage(backend: StorageBackend): Promise<StorageAdapter> {
+  if (backend === "indexedDB") {
+    try {
+      activeAdapter = await createIndexedDBAdapter();
+      return activeAdapter;
+    } catch (error) {
+      console.warn("IndexedDB is unavailable, falling back to localStorage", error);
+    }
+  }
+  activeAdapter =
+    backend === "memory" || typeof localStorage === "undefined"
+      ? createMemoryAdapter()
+      : createLocalStorageAdapter();
+  return activeAdapter;
+}
+
+/**
+ * Replaces the active adapter, e.g. with an in-memory one in tests.
+ * @param adapter The adapter to use from now on
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  activeAdapter = adapter;
+}
+
+/**
+ * Returns the active adapter, defaulting to localStorage when none was selected.
+ * @returns The adapter
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!activeAdapter) {
+    activeAdapter =
+      typeof localStorage === "undefined" ? createMemoryAdapter() : createLocalStorageAdapter();
+  }
+  return activeAdapter;
+}
@@ -0,0 +1,68 @@
+import type { Todo } from "../todoReducer";
+import { addDays, getStartOfDay, parseLocalDate, toLocalDateString } from "./date";
+
+export interface StreakGoal {
+  dailyGoal: number; // Completions needed for a day to count
+  restDays: number[]; // Weekdays (0 = Sunday) that don't break the streak
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  todayCount: number;
+  isTodayMet: boolean;
+  isRestDay: boolean;
+}
+
+/**
+ * Counts completion events per local day. Todos completed before timestamps were
+ * recorded have no completedAt and can't be placed on a day.
+ * @param todos The todos to count, including archived and trashed ones
+ * @returns Completions keyed by local YYYY-MM-DD date
+ */
+export function countCompletionsByDay(todos: Todo[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  todos.forEach((todo) => {
+    if (!todo.completed || todo.completedAt === undefined) return;
+    const date = toLocalDateString(new Date(todo.completedAt));
+    counts.set(date, (counts.get(date) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Measures streaks of days that met the daily goal, in local time. Rest days never
+ * break a streak: they count when the goal was met anyway and are skipped otherwise.
+ * Today never breaks the current streak, since there's still time to meet the goal.
+ * @param counts Completions per day, from countCompletionsByDay
+ * @param goal The daily goal and rest days
+ * @param now The current time
+ * @returns The current and longest streaks and today's progress
+ */
+export function computeStreaks(
+  counts: Map<string, number>,
+  goal: StreakGoal,
+  now: number = Date.now()
+): StreakSummary {
+  const today = getStartOfDay(new Date(now));
+  const todayKey = toLocalDateString(today);
+  const todayCount = counts.get(todayKey) ?? 0;
+  const isTodayMet = todayCount >= goal.dailyGoal;
+  const isRestDay = goal.restDays.includes(today.getDay());
+
+  const dates = [...counts.keys()].filter((date) => date <= todayKey).sort();
+  if (dates.length === 0) return { current: 0, longest: 0, todayCount, isTodayMet, isRestDay };
+
+  let current = 0;
+  let longest = 0;
+  for (let day = parseLocalDate(dates[0]); day <= today; day = addDays(day, 1)) {
+    const key = toLocalDateString(day);
+    if ((counts.get(key) ?? 0) >= goal.dailyGoal) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (key !== todayKey && !goal.restDays.includes(day.getDay())) {
+      current = 0;
+    }
+  }
+  return { current, longest, todayCount, isTodayMet, isRestDay };
+}
@@ -0,0 +1,28 @@
+/**
+ * Normalizes a free-form tag: lowercase, no leading "#", spaces become dashes.
+ * @param raw The tag as typed
+ * @returns The normalized tag, or an empty string when nothing usable remains
+ */
+export function normalizeTag(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^\p{L}\p{N}_-]/gu, "");
+}
+
+/**
+ * Lists every tag in use, most used first.
+ * @param items Anything carrying optional tags
+ * @returns Distinct tags ordered by frequency, then alphabetically
+ */
+export function collectTags(items: { tags?: string[] }[]): string[] {
+  const counts = new Map<string, number>();
+  items.forEach((item) =>
+    item.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  );
+  return [...counts.keys()].sort(
+    (a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b)
+  );
+}
@@ -0,0 +1,570 @@
+import type { Todo, TodoSnapshot, PriorityType, CategoryType } from "../todoReducer";
+import { validateRecurrence } from "../todoSchema";
+import { CategoryRef, findCategoryByName, parseQuickAdd } from "./quickAdd";
+import { normalizeTag } from "./tags";
+
+export type TransferFormat = "json" | "csv" | "markdown";
+export type ImportMode = "merge" | "replace";
+
+export const EXPORT_VERSION = 1;
+
+export interface ImportRowError {
+  row: number; // 1-based row, line or array index in the source file
+  field?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  format: TransferFormat;
+  todos: Todo[];
+  errors: ImportRowError[];
+}
+
+export interface ImportDiff {
+  added: Todo[];
+  updated: Todo[];
+  unchanged: Todo[];
+  removed: Todo[];
+  snapshot: TodoSnapshot;
+}
+
+const PRIORITY_VALUES: PriorityType[] = ["high", "medium", "low"];
+const CSV_COLUMNS = [
+  "id",
+  "text",
+  "completed",
+  "dueDate",
+  "dueTime",
+  "reminders",
+  "category",
+  "priority",
+  "subtasks",
+  "recurrence",
+  "tags",
+  "notes",
+  "blockedBy",
+  "listId",
+];
+
+// Todos in their manual order, falling back to newest-first for unordered items
+function inOrder(snapshot: TodoSnapshot): Todo[] {
+  const position = new Map(snapshot.order.map((id, index) => [id, index]));
+  return [...snapshot.todos].sort((a, b) => {
+    const aPos = position.get(a.id);
+    const bPos = position.get(b.id);
+    if (aPos === undefined && bPos === undefined) return b.id - a.id;
+    if (aPos === undefined) return -1;
+    if (bPos === undefined) return 1;
+    return aPos - bPos;
+  });
+}
+
+function csvEscape(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes todos to a downloadable file body.
+ * @param snapshot The todos and their manual order
+ * @param format The target format
+ * @returns The file contents
+ */
+export function exportTodos(snapshot: TodoSnapshot, format: TransferFormat): string {
+  const todos = inOrder(snapshot);
+
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        todos,
+        order: snapshot.order,
+      },
+      null,
+      2
+    );
+  }
+
+  if (format === "csv") {
+    const rows = todos.map((todo) =>
+      [
+        String(todo.id),
+        todo.text,
+        String(todo.completed),
+        todo.dueDate ?? "",
+        todo.dueTime ?? "",
+        (todo.reminders ?? []).join(" "),
+        todo.category ?? "",
+        todo.priority,
+        todo.subtasks && todo.subtasks.length > 0 ? JSON.stringify(todo.subtasks) : "",
+        todo.recurrence ? JSON.stringify(todo.recurrence) : "",
+        (todo.tags ?? []).join(" "),
+        todo.notes ?? "",
+        (todo.blockedBy ?? []).join(" "),
+        todo.listId ?? "",
+      ]
+        .map(csvEscape)
+        .join(",")
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\n");
+  }
+
+  // Markdown metadata uses quick-add syntax so the checklist can be imported again
+  return todos
+    .map((todo) => {
+      const meta = [
+        todo.dueDate,
+        todo.category && `#${todo.category}`,
+        todo.priority !== "low" && `!${todo.priority}`,
+      ].filter(Boolean);
+      const line = `- [${todo.completed ? "x" : " "}] ${[todo.text, ...meta].join(" ")}`;
+      const steps = (todo.subtasks ?? []).map(
+        (s) => `  - [${s.completed ? "x" : " "}] ${s.text}`
+      );
+      return [line, ...steps].join("\n");
+    })
+    .join("\n");
+}
+
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+// Validates one raw record, reporting every bad field rather than stopping at the first
+function validateRecord(
+  raw: Record<string, unknown>,
+  row: number,
+  categories: CategoryRef[],
+  errors: ImportRowError[]
+): Todo | null {
+  const rowErrors: ImportRowError[] = [];
+  const fail = (field: string, message: string) => rowErrors.push({ row, field, message });
+
+  const text = typeof raw.text === "string" ? raw.text.trim() : "";
+  if (!text) fail("text", "Text is required");
+
+  let id = typeof raw.id === "number" ? raw.id : Number(raw.id);
+  if (raw.id === undefined || raw.id === "") {
+    id = NaN;
+  } else if (!Number.isFinite(id)) {
+    fail("id", `"${raw.id}" is not a numeric id`);
+  }
+
+  let completed = false;
+  if (typeof raw.completed === "boolean") {
+    completed = raw.completed;
+  } else if (raw.completed === "true" || raw.completed === "false") {
+    completed = raw.completed === "true";
+  } else if (raw.completed !== undefined && raw.completed !== "") {
+    fail("completed", `"${raw.completed}" must be true or false`);
+  }
+
+  const dueDate = raw.dueDate ? String(raw.dueDate) : undefined;
+  if (dueDate && !isValidDate(dueDate)) fail("dueDate", `"${dueDate}" is not a YYYY-MM-DD date`);
+
+  const dueTime = raw.dueTime ? String(raw.dueTime) : undefined;
+  if (dueTime && !/^\d{2}:\d{2}$/.test(dueTime)) {
+    fail("dueTime", `"${dueTime}" is not an HH:MM time`);
+  }
+
+  // Minutes before the due time; a list in JSON and space- or comma-separated in CSV
+  let reminders: number[] | undefined;
+  if (raw.reminders) {
+    const list = Array.isArray(raw.reminders)
+      ? raw.reminders
+      : String(raw.reminders).split(/[\s,]+/).filter(Boolean).map(Number);
+    const isOffset = (offset: unknown) =>
+      typeof offset === "number" && Number.isFinite(offset) && offset >= 0;
+    if (!list.every(isOffset)) {
+      fail("reminders", "Reminders must be minutes before the due time, e.g. 15 60");
+    } else if (list.length > 0) {
+      reminders = list as number[];
+    }
+  }
+
+  // Exports hold the id; a name typed into a spreadsheet works too
+  const categoryValue = raw.category ? String(raw.category) : undefined;
+  const category = categoryValue && findCategoryByName(categories, categoryValue)?.id;
+  if (categoryValue && !category) {
+    fail("category", `Unknown category "${categoryValue}"`);
+  }
+
+  const priority = raw.priority ? String(raw.priority) : "low";
+  if (!PRIORITY_VALUES.includes(priority as PriorityType)) {
+    fail("priority", `"${priority}" must be high, medium or low`);
+  }
+
+  let subtasks: Todo["subtasks"];
+  if (raw.subtasks) {
+    try {
+      const parsed = typeof raw.subtasks === "string" ? JSON.parse(raw.subtasks) : raw.subtasks;
+      if (!Array.isArray(parsed) || parsed.some((s) => typeof s?.text !== "string")) {
+        throw new Error();
+      }
+      subtasks = parsed.map((s, index) => ({
+        id: typeof s.id === "number" ? s.id : index + 1,
+        text: s.text,
+        completed: !!s.completed,
+      }));
+    } catch {
+      fail("subtasks", "Subtasks must be a list of { text, completed }");
+    }
+  }
+
+  let recurrence: Todo["recurrence"];
+  if (raw.recurrence) {
+    try {
+      const parsed =
+        typeof raw.recurrence === "string" ? JSON.parse(raw.recurrence) : raw.recurrence;
+      recurrence = validateRecurrence(parsed);
+      if (!recurrence) throw new Error();
+    } catch {
+      fail("recurrence", "Recurrence rule is malformed");
+    }
+  }
+
+  // Tags come as a list in JSON and space- or comma-separated in CSV
+  let tags: string[] | undefined;
+  if (raw.tags) {
+    const list = Array.isArray(raw.tags) ? raw.tags.map(String) : String(raw.tags).split(/[\s,]+/);
+    const normalized = [...new Set(list.map(normalizeTag).filter(Boolean))];
+    if (normalized.length > 0) tags = normalized;
+  }
+
+  // Ids of blocking todos; remapped along with the todos' own ids in diffImport
+  let blockedBy: number[] | undefined;
+  if (raw.blockedBy) {
+    const list = Array.isArray(raw.blockedBy)
+      ? raw.blockedBy.map(Number)
+      : String(raw.blockedBy).split(/[\s,]+/).filter(Boolean).map(Number);
+    if (!list.every(Number.isFinite)) {
+      fail("blockedBy", "Blocked by must be a list of todo ids");
+    } else if (list.length > 0) {
+      blockedBy = [...new Set(list)];
+    }
+  }
+
+  const notes = raw.notes ? String(raw.notes) : undefined;
+  // Lists that don't exist here fall back to the default list
+  const listId = typeof raw.listId === "string" && raw.listId ? raw.listId : undefined;
+  // Only JSON exports carry timestamps
+  const createdAt = typeof raw.createdAt === "number" ? raw.createdAt : undefined;
+  const completedAt = typeof raw.completedAt === "number" ? raw.completedAt : undefined;
+
+  if (rowErrors.length > 0) {
+    errors.push(...rowErrors);
+    return null;
+  }
+
+  return {
+    id,
+    text,
+    completed,
+    dueDate,
+    dueTime,
+    reminders,
+    category: category as CategoryType | undefined,
+    listId,
+    priority: priority as PriorityType,
+    subtasks,
+    recurrence,
+    tags,
+    notes,
+    blockedBy,
+    createdAt,
+    completedAt,
+  };
+}
+
+function parseMarkdown(
+  content: string,
+  categories: CategoryRef[],
+  errors: ImportRowError[]
+): Todo[] {
+  const todos: Todo[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const match = /^(\s*)[-*]\s+\[([ xX])\]\s+(.*)$/.exec(line);
+    if (!match) {
+      errors.push({ row: index + 1, message: `Not a "- [ ] item" checklist line` });
+      return;
+    }
+    const [, indent, mark, body] = match;
+    const completed = mark.toLowerCase() === "x";
+
+    // Indented items are steps of the previous top-level item
+    if (indent.length > 0) {
+      const parent = todos[todos.length - 1];
+      if (!parent) {
+        errors.push({ row: index + 1, message: "Indented step has no parent item" });
+        return;
+      }
+      parent.subtasks = [
+        ...(parent.subtasks ?? []),
+        { id: (parent.subtasks?.length ?? 0) + 1, text: body.trim(), completed },
+      ];
+      return;
+    }
+
+    const parsed = parseQuickAdd(body, categories);
+    const todo = validateRecord(
+      {
+        text: parsed.text,
+        completed,
+        dueDate: parsed.dueDate,
+        category: parsed.category,
+        priority: parsed.priority,
+      },
+      index + 1,
+      categories,
+      errors
+    );
+    if (todo) todos.push(todo);
+  });
+  return todos;
+}
+
+function detectFormat(fileName: string, content: string): TransferFormat {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".json")) return "json";
+  if (lower.endsWith(".csv")) return "csv";
+  if (lower.endsWith(".md") || lower.endsWith(".markdown")) return "markdown";
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) return "json";
+  return /^\s*[-*]\s+\[/.test(trimmed) ? "markdown" : "csv";
+}
+
+/**
+ * Parses and validates an import file. Rows that fail validation are reported
+ * in `errors` and left out of `todos`; todos are returned in file order.
+ * @param fileName Used to detect the format from its extension
+ * @param content The file contents
+ * @param categories The categories todos may refer to
+ * @returns The valid todos plus per-row errors
+ */
+export function parseImport(
+  fileName: string,
+  content: string,
+  categories: CategoryRef[]
+): ImportResult {
+  const format = detectFormat(fileName, content);
+  const errors: ImportRowError[] = [];
+  let todos: Todo[] = [];
+
+  if (format === "json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return { format, todos: [], errors: [{ row: 0, message: "File is not valid JSON" }] };
+    }
+    // Accept both the versioned export envelope and a bare array
+    const envelope = data as { version?: unknown; todos?: unknown; order?: unknown };
+    const records = Array.isArray(data) ? data : envelope?.todos;
+    if (!Array.isArray(data) && envelope?.version !== EXPORT_VERSION) {
+      errors.push({ row: 0, message: `Unsupported export version "${envelope?.version}"` });
+      return { format, todos: [], errors };
+    }
+    if (!Array.isArray(records)) {
+      return { format, todos: [], errors: [{ row: 0, message: "No todos array found" }] };
+    }
+    records.forEach((record, index) => {
+      if (typeof record !== "object" || record === null) {
+        errors.push({ row: index + 1, message: "Entry is not an object" });
+        return;
+      }
+      const todo = validateRecord(record as Record<string, unknown>, index + 1, categories, errors);
+      if (todo) todos.push(todo);
+    });
+    // Restore the exported manual order
+    if (Array.isArray(envelope?.order)) {
+      const position = new Map((envelope.order as unknown[]).map((id, index) => [id, index]));
+      todos.sort(
+        (a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity)
+      );
+    }
+  } else if (format === "csv") {
+    const [header, ...rows] = parseCsv(content);
+    const columns = (header ?? []).map((h) => h.trim());
+    if (!columns.includes("text")) {
+      return { format, todos: [], errors: [{ row: 1, message: 'Missing required "text" column' }] };
+    }
+    rows.forEach((cells, index) => {
+      const record: Record<string, string> = {};
+      columns.forEach((column, i) => (record[column] = cells[i]?.trim() ?? ""));
+      // Header is row 1, so data starts at row 2
+      const todo = validateRecord(record, index + 2, categories, errors);
+      if (todo) todos.push(todo);
+    });
+  } else {
+    todos = parseMarkdown(content, categories, errors);
+  }
+
+  return { format, todos, errors };
+}
+
+// What an import can change, compared field by field: activity and timestamps are rewritten
+// on import, and a todo's key order depends on how it was last edited
+const COMPARED_FIELDS = [
+  "text",
+  "completed",
+  "dueDate",
+  "dueTime",
+  "reminders",
+  "category",
+  "listId",
+  "priority",
+  "subtasks",
+  "recurrence",
+  "tags",
+  "notes",
+  "blockedBy",
+] as const;
+
+// A field as a comparable string; missing, empty strings and empty lists all read as ""
+function fieldKey(todo: Todo, field: (typeof COMPARED_FIELDS)[number]): string {
+  const value = todo[field];
+  if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return "";
+  }
+  if (field === "subtasks") {
+    return todo.subtasks!.map((s) => `${s.completed ? "x" : " "} ${s.text}`).join("\n");
+  }
+  if (Array.isArray(value)) return value.join(" ");
+  if (typeof value === "object") return JSON.stringify(value, Object.keys(value).sort());
+  return String(value);
+}
+
+function sameTodo(a: Todo, b: Todo): boolean {
+  return COMPARED_FIELDS.every((field) => fieldKey(a, field) === fieldKey(b, field));
+}
+
+/**
+ * Works out what an import would change. In merge mode an imported todo whose id
+ * matches an existing one with the same text updates it; any other collision
+ * (or a missing id) gets a fresh id so nothing is overwritten by accident.
+ * @param current The current todos and order
+ * @param imported Validated todos in file order
+ * @param mode Merge into or replace the current list
+ * @param hiddenIds Ids of trashed and archived todos, which an import never takes over
+ * @returns The categorized changes and the resulting snapshot
+ */
+export function diffImport(
+  current: TodoSnapshot,
+  imported: Todo[],
+  mode: ImportMode,
+  hiddenIds: number[] = []
+): ImportDiff {
+  const existing = new Map(current.todos.map((t) => [t.id, t]));
+  const usedIds = new Set(hiddenIds);
+  if (mode === "merge") current.todos.forEach((t) => usedIds.add(t.id));
+  let nextId =
+    Math.max(
+      Date.now(),
+      ...current.todos.map((t) => t.id),
+      ...hiddenIds,
+      ...imported.map((t) => t.id || 0)
+    ) + 1;
+
+  const added: Todo[] = [];
+  const updated: Todo[] = [];
+  const unchanged: Todo[] = [];
+  const resolved: Todo[] = [];
+
+  // Settle every id first so links between imported todos can follow them
+  const idMap = new Map<number, number>();
+  const placed = imported.map((todo) => {
+    const match = existing.get(todo.id);
+    const merges = mode === "merge" && !!match && match.text === todo.text;
+    const id = merges || (Number.isFinite(todo.id) && !usedIds.has(todo.id)) ? todo.id : nextId++;
+    usedIds.add(id);
+    if (Number.isFinite(todo.id) && !idMap.has(todo.id)) idMap.set(todo.id, id);
+    return { todo, id, match, merges };
+  });
+
+  // Blockers point at imported todos by their file ids, or at todos that are staying; others go
+  const remapBlockers = (todo: Todo): Todo => {
+    if (!todo.blockedBy) return todo;
+    const blockedBy = todo.blockedBy
+      .map((id) => idMap.get(id) ?? (mode === "merge" && existing.has(id) ? id : undefined))
+      .filter((id): id is number => id !== undefined && id !== todo.id);
+    return { ...todo, blockedBy: blockedBy.length > 0 ? [...new Set(blockedBy)] : undefined };
+  };
+
+  for (const { todo, id, match, merges } of placed) {
+    const withId = remapBlockers({ ...todo, id });
+    if (merges) {
+      (sameTodo(match!, withId) ? unchanged : updated).push(withId);
+    } else if (mode === "replace" && match && sameTodo(match, withId)) {
+      unchanged.push(withId);
+    } else if (mode === "replace" && match) {
+      updated.push(withId);
+    } else {
+      added.push(withId);
+    }
+    resolved.push(withId);
+  }
+
+  if (mode === "replace") {
+    const importedIds = new Set(resolved.map((t) => t.id));
+    const removed = current.todos.filter((t) => !importedIds.has(t.id));
+    return {
+      added,
+      updated,
+      unchanged,
+      removed,
+      snapshot: { todos: resolved, order: resolved.map((t) => t.id) },
+    };
+  }
+
+  const resolvedById = new Map(resolved.map((t) => [t.id, t]));
+  const todos = [
+    ...current.todos.map((t) => resolvedById.get(t.id) ?? t),
+    ...added,
+  ];
+  // Existing order is kept; imported items follow it in file order
+  const order = [...inOrder(current).map((t) => t.id), ...added.map((t) => t.id)];
+  return { added, updated, unchanged, removed: [], snapshot: { todos, order } };
+}